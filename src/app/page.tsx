@@ -1,6 +1,111 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import CompareView from '@/components/CompareView';
+import ExportDialog from '@/components/ExportDialog';
+import FigureImage from '@/components/FigureImage';
+import HistoryPanel from '@/components/HistoryPanel';
+import LoadCsvDialog from '@/components/LoadCsvDialog';
+import MetadataPanel from '@/components/MetadataPanel';
+import QualityChecksPanel from '@/components/QualityChecksPanel';
+import ReviewersPanel from '@/components/ReviewersPanel';
+import ReviewPassesPanel from '@/components/ReviewPassesPanel';
+import RegionLayer, { type RegionTool } from '@/components/RegionLayer';
+import SettingsPanel from '@/components/SettingsPanel';
+import StatisticsPanel from '@/components/StatisticsPanel';
+import ShortcutsOverlay from '@/components/ShortcutsOverlay';
+import SidecarPanel from '@/components/SidecarPanel';
+import TimelineControls from '@/components/TimelineControls';
+import VirtualList, { type VirtualListHandle } from '@/components/VirtualList';
+import ZoomViewport, { type ZoomViewportHandle } from '@/components/ZoomViewport';
+import { SESSION_REVIEWER, collectVotes, findDisagreements, formatMergedCsv, type ReviewerResults } from '@/lib/agreement';
+import { computeDifference, formatDifference, pairReferenceFigures, type CompareMode, type ReferenceSet } from '@/lib/comparison';
+import { formatCsv, type CsvParseError } from '@/lib/csv';
+import { downloadFile, saveTextFile } from '@/lib/download';
+import {
+  buildExportRecords,
+  exportFileName,
+  formatResultsJson,
+  formatResultsJsonl,
+  loadReviewerName,
+  saveReviewerName,
+  type ExportFormat,
+} from '@/lib/exportFormats';
+import {
+  activePass,
+  describeScope,
+  passColumnName,
+  restorePasses,
+  selectPassImages,
+  serializePasses,
+  knownChoices,
+  startPass,
+  type PassScope,
+  type ReviewPass,
+} from '@/lib/reviewPasses';
+import { executeSort, remapMovedKey, remapMovedKeys, type SortMode, type SortPlan } from '@/lib/sortIntoFolders';
+import { describeRowErrors, parseResultsCsv } from '@/lib/resultsCsv';
+import { applyLoad, applyRegionsLoad, previewLoad, type LoadMode, type LoadSummary } from '@/lib/resultsMerge';
+import { scanDirectoryHandle, scanFileList, splitPath, type ScannedDirectory } from '@/lib/directory';
+import { expandFigureItems } from '@/lib/formats';
+import { loadMetadataColumns, metadataFieldValue, readFigureMetadata, saveMetadataColumns, type FigureMetadata } from '@/lib/imageMetadata';
+import { findSidecars, isFigureOrSidecar, sameSidecars, splitSidecars, type SidecarMap } from '@/lib/sidecars';
+import {
+  diffScan,
+  fileFingerprint,
+  hashFile,
+  hasScanChanges,
+  sameFingerprint,
+  supportsFileSystemObserver,
+  type FileFingerprint,
+} from '@/lib/directoryWatch';
+import {
+  listResultsFiles,
+  recordWrittenResults,
+  removeResultsFile,
+  requestWritePermission,
+  resultsFileName,
+  rotateResultsFiles,
+  standaloneSummaryFileName,
+  writeResultsFile,
+} from '@/lib/resultsFiles';
+import {
+  DEFAULT_ATTRIBUTES,
+  findLabelByKey,
+  findPendingFollowUp,
+  followUpColumns,
+  followUpPath,
+  getLabelIndex,
+  hasAnyValue,
+  isEntryComplete,
+  pruneFollowUps,
+  type Attribute,
+  type ImageEntry,
+} from '@/lib/attributes';
+import { EMPTY_HISTORY, pushHistory, redoHistory, undoHistory, type HistorySnapshot, type HistoryState } from '@/lib/history';
+import { DEFAULT_SHORTCUTS, eventToCombo, findShortcutAction, loadShortcuts, plainShortcutKeys, saveShortcuts, type ShortcutBindings } from '@/lib/shortcuts';
+import {
+  BUILTIN_PROFILES,
+  loadProfileState,
+  renameEntryValues,
+  saveProfileState,
+  type ProfileState,
+} from '@/lib/profiles';
+import { DEFAULT_TIMELINE_FILTER, DEFAULT_TIMELINE_SORT, buildTimelineView, type TimelineFilter, type TimelineSort } from '@/lib/timelineView';
+import {
+  DEFAULT_QUALITY_THRESHOLDS,
+  QUALITY_ISSUE_LABELS,
+  analyzeFigure,
+  evaluateQualityChecks,
+  formatQualityFlags,
+  loadQualityThresholds,
+  saveQualityThresholds,
+  type FigureAnalysis,
+  type QualityThresholds,
+} from '@/lib/qualityChecks';
+import { summaryFileName, type SessionProgress } from '@/lib/statistics';
+import { formatRegionsFile, parseRegionsFile, regionsFileName, type Region } from '@/lib/regions';
+import { compareSession, loadSession, saveSession, type SavedSession, type SessionComparison } from '@/lib/sessionStore';
 
 const getLabelColors = (index: number) => {
   const colors = [
@@ -13,58 +118,162 @@ const getLabelColors = (index: number) => {
   return colors[index] || { bg: 'bg-gray-500 hover:bg-gray-600', text: 'text-gray-600' };
 };
 
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const AUTOSAVE_DELAY_MS = 500;
+const SAVE_IN_PLACE_INTERVAL_MS = 30_000;
+const WATCH_INTERVAL_MS = 5_000;
+// Regenerating figures touches many files at once; rescan after the burst
+const WATCH_DEBOUNCE_MS = 1_000;
+const DEFAULT_KEEP_RESULT_FILES = 5;
+// Fixed Timeline row height (68px row plus 8px gap) required by the virtualized list
+const TIMELINE_ROW_HEIGHT = 76;
+const ZOOM_STEP = 1.25;
+
 export default function Home() {
   const [directory, setDirectory] = useState('');
   const [images, setImages] = useState<string[]>([]);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const [error, setError] = useState('');
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const timelineRef = useRef<HTMLDivElement>(null);
+  const timelineRef = useRef<VirtualListHandle>(null);
   const [directoryHandle, setDirectoryHandle] = useState<FileSystemDirectoryHandle | null>(null);
   const [imageFiles, setImageFiles] = useState<Map<string, File>>(new Map());
-  const [labels, setLabels] = useState([
-    { key: 'y', value: 'Y' },
-    { key: 'n', value: 'N' }
-  ]);
-  const [settingsWindow, setSettingsWindow] = useState<Window | null>(null);
-  const [imageChoices, setImageChoices] = useState<Map<string, string>>(new Map());
+  const [attributes, setAttributes] = useState<Attribute[]>(DEFAULT_ATTRIBUTES);
+  const [profileState, setProfileState] = useState<ProfileState>({ profiles: BUILTIN_PROFILES, activeProfile: BUILTIN_PROFILES[0].name });
+  const [showSettings, setShowSettings] = useState(false);
+  const [imageChoices, setImageChoices] = useState<Map<string, ImageEntry>>(new Map());
   const [allFiguresChecked, setAllFiguresChecked] = useState(false);
   const [hasShownAllCheckedMessage, setHasShownAllCheckedMessage] = useState(false);
-  const [zoomLevel, setZoomLevel] = useState(1);
+  const viewportRef = useRef<ZoomViewportHandle>(null);
+  const [imageRegions, setImageRegions] = useState<Map<string, Region[]>>(new Map());
+  const [regionTool, setRegionTool] = useState<RegionTool>('none');
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  const [shortcuts, setShortcuts] = useState<ShortcutBindings>(DEFAULT_SHORTCUTS);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [timelineFilter, setTimelineFilter] = useState<TimelineFilter>(DEFAULT_TIMELINE_FILTER);
+  const [timelineSort, setTimelineSort] = useState<TimelineSort>(DEFAULT_TIMELINE_SORT);
+  const [saveInPlace, setSaveInPlace] = useState(false);
+  const [inPlaceFileName, setInPlaceFileName] = useState<string | null>(null);
+  const [keepResultFiles, setKeepResultFiles] = useState(DEFAULT_KEEP_RESULT_FILES);
+  const lastWrittenCsvRef = useRef('');
+  const [resumeOffer, setResumeOffer] = useState<{ session: SavedSession; comparison: SessionComparison } | null>(null);
+  const referenceInputRef = useRef<HTMLInputElement>(null);
+  const [reference, setReference] = useState<ReferenceSet | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [overlayOpacity, setOverlayOpacity] = useState(0.5);
+  const [differenceScores, setDifferenceScores] = useState<Map<string, number>>(new Map());
+  const [figureAnalyses, setFigureAnalyses] = useState<Map<string, FigureAnalysis>>(new Map());
+  const [qualityThresholds, setQualityThresholds] = useState<QualityThresholds>(DEFAULT_QUALITY_THRESHOLDS);
+  const [sidecars, setSidecars] = useState<SidecarMap>(new Map());
+  const [watchDirectory, setWatchDirectory] = useState(false);
+  const [labeledFiles, setLabeledFiles] = useState<Map<string, FileFingerprint>>(new Map());
+  const [removedImages, setRemovedImages] = useState<string[]>([]);
+  const rescanningRef = useRef(false);
+  // Keys of figures moved into label folders, mapped to the keys they had before
+  const [movedFrom, setMovedFrom] = useState<Map<string, string>>(new Map());
+  const [figureMetadata, setFigureMetadata] = useState<Map<string, FigureMetadata>>(new Map());
+  const [metadataColumns, setMetadataColumns] = useState<string[]>([]);
+  const [reviews, setReviews] = useState<ReviewerResults[]>([]);
+  const [showReviewers, setShowReviewers] = useState(false);
+  const [showStatistics, setShowStatistics] = useState(false);
+  const [passes, setPasses] = useState<ReviewPass[]>([]);
+  const [showPasses, setShowPasses] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [reviewerName, setReviewerName] = useState('');
+  const [sessionProgress, setSessionProgress] = useState<SessionProgress>({ startedAt: 0, labeledAtStart: 0 });
+  const [pendingLoad, setPendingLoad] = useState<{
+    fileName: string;
+    choices: Map<string, ImageEntry>;
+    errors: CsvParseError[];
+    // From the .regions.json saved with the CSV, applied along with the choices
+    regions: Map<string, Region[]> | null;
+    summary: LoadSummary | null;
+  } | null>(null);
 
-  // Reset zoom when image changes
+  // Reset region selection when image changes; ZoomViewport decides whether the view is kept
   useEffect(() => {
-    setZoomLevel(1);
+    setSelectedRegionId(null);
   }, [currentImageIndex]);
 
+  // Reset labeling state for a freshly scanned directory and look for a saved session to resume.
+  // The saved session is read first so the directory name and its figures switch together;
+  // otherwise autosave could store the previous directory's labels under the new name.
+  const startSession = async (
+    directoryName: string,
+    handle: FileSystemDirectoryHandle | null,
+    imageFileMap: Map<string, File>,
+    sortedImages: string[]
+  ) => {
+    let offer: typeof resumeOffer = null;
+    try {
+      const session = await loadSession(directoryName);
+      if (session && session.choices.length > 0) {
+        offer = { session, comparison: compareSession(session, sortedImages) };
+      }
+    } catch (error) {
+      console.error('Failed to load saved session:', error);
+    }
+
+    setDirectory(directoryName);
+    setDirectoryHandle(handle);
+    setImageFiles(imageFileMap);
+    setImages(sortedImages);
+    setCurrentImageIndex(0);
+    setImageChoices(new Map());
+    setImageRegions(new Map());
+    setHistory(EMPTY_HISTORY);
+    setAllFiguresChecked(false);
+    setHasShownAllCheckedMessage(false);
+    setResumeOffer(offer);
+    setPasses([]);
+    setLabeledFiles(new Map());
+    setRemovedImages([]);
+    setMovedFrom(new Map());
+    setSessionProgress({ startedAt: Date.now(), labeledAtStart: 0 });
+  };
+
+  const resumeSession = () => {
+    if (!resumeOffer) return;
+    const { session, comparison } = resumeOffer;
+    const restoredChoices = new Map(session.choices);
+
+    // Keep the position on the same image even if the list changed
+    const savedImage = session.images[session.currentImageIndex];
+    const index = images.indexOf(savedImage);
+    setImageChoices(restoredChoices);
+    setImageRegions(new Map(session.regions ?? []));
+    setLabeledFiles(new Map(session.labeledFiles ?? []));
+    setPasses(restorePasses(session.passes));
+    setHistory(EMPTY_HISTORY);
+    setAttributes(session.attributes);
+    setSessionProgress({
+      startedAt: Date.now(),
+      labeledAtStart: images.filter(image => isEntryComplete(session.attributes, restoredChoices.get(image))).length,
+    });
+    setCurrentImageIndex(index !== -1 ? index : Math.max(images.findIndex(image => !isEntryComplete(session.attributes, restoredChoices.get(image))), 0));
+    setResumeOffer(null);
+    setError(`Session restored. ${comparison.restoredCount} labels restored.`);
+  };
+
   const handleDirectorySelect = async () => {
     try {
       if ('showDirectoryPicker' in window) {
         // @ts-expect-error - showDirectoryPicker not in TypeScript definitions
         const dirHandle = await window.showDirectoryPicker();
-        setDirectoryHandle(dirHandle);
-        setDirectory(dirHandle.name);
+        setSaveInPlace(false);
+        setInPlaceFileName(null);
         setError('');
         
-        // Read files from directory handle
-        const imageFileMap = new Map<string, File>();
-        const imageNames: string[] = [];
+        // Read files from directory handle, including subdirectories
+        const { figures, sidecars } = splitSidecars(await scanDirectoryHandle(dirHandle, isFigureOrSidecar));
+        const { files: imageFileMap, paths: sortedImages } = await expandFigureItems(figures);
+        setSidecars(sidecars);
         
-        for await (const [name, handle] of dirHandle) {
-          if (handle.kind === 'file' && /\.(jpg|jpeg|png|gif)$/i.test(name)) {
-            const file = await handle.getFile();
-            imageFileMap.set(name, file);
-            imageNames.push(name);
-          }
-        }
-        
-        setImageFiles(imageFileMap);
-        const sortedImages = imageNames.sort();
-        setImages(sortedImages);
-        setCurrentImageIndex(0);
-        setImageChoices(new Map());
-        setAllFiguresChecked(false);
-        setHasShownAllCheckedMessage(false);
+        await startSession(dirHandle.name, dirHandle, imageFileMap, sortedImages);
         
         // Auto-load CSV after directory selection
       } else {
@@ -77,95 +286,618 @@ export default function Home() {
     }
   };
 
-  const handleDirectoryChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+  const handleDirectoryChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (files && files.length > 0) {
       const file = files[0];
       const path = (file as File & { webkitRelativePath: string }).webkitRelativePath;
       if (path) {
         const dirPath = path.split('/')[0];
-        setDirectory(dirPath);
         setError('');
         
-        // Process files from the file input
-        const imageFileMap = new Map<string, File>();
-        const imageNames: string[] = [];
+        // Process files from the file input, keyed by path relative to the selected directory
+        const { figures, sidecars } = splitSidecars(scanFileList(files, isFigureOrSidecar));
+        const { files: imageFileMap, paths: sortedImages } = await expandFigureItems(figures);
+        setSidecars(sidecars);
         
-        Array.from(files).forEach(file => {
-          const relativePath = (file as File & { webkitRelativePath: string }).webkitRelativePath;
-          const fileName = relativePath.split('/').pop();
-          if (fileName && /\.(jpg|jpeg|png|gif)$/i.test(fileName)) {
-            imageFileMap.set(fileName, file);
-            imageNames.push(fileName);
-          }
-        });
-        
-        setImageFiles(imageFileMap);
-        const sortedImages = imageNames.sort();
-        setImages(sortedImages);
-        setCurrentImageIndex(0);
-        setImageChoices(new Map());
-        setAllFiguresChecked(false);
-        setHasShownAllCheckedMessage(false);
+        await startSession(dirPath, null, imageFileMap, sortedImages);
         
         // Auto-load CSV after directory selection (fallback method)
       }
     }
   };
 
+  const loadReference = async (name: string, scanned: ScannedDirectory) => {
+    const { files } = await expandFigureItems(scanned);
+    setReference({ name, files });
+    setCompareMode(mode => (mode === 'off' ? 'side-by-side' : mode));
+  };
+
+  const handleReferenceSelect = async () => {
+    try {
+      if ('showDirectoryPicker' in window) {
+        // @ts-expect-error - showDirectoryPicker not in TypeScript definitions
+        const dirHandle = await window.showDirectoryPicker();
+        await loadReference(dirHandle.name, await scanDirectoryHandle(dirHandle));
+      } else {
+        referenceInputRef.current?.click();
+      }
+    } catch (err) {
+      if (err instanceof Error && err.name !== 'AbortError') {
+        setError('Failed to select reference directory');
+      }
+    }
+  };
+
+  const handleReferenceChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files;
+    if (files && files.length > 0) {
+      const path = (files[0] as File & { webkitRelativePath: string }).webkitRelativePath;
+      await loadReference(path.split('/')[0] || 'reference', scanFileList(files));
+    }
+    event.target.value = '';
+  };
+
+  const clearReference = () => {
+    setReference(null);
+    setCompareMode('off');
+    setTimelineSort(sort => (sort.key === 'difference' ? DEFAULT_TIMELINE_SORT : sort));
+  };
+
+  // Reference figure paired with each image, by relative path or unique file name
+  const referencePairs = useMemo(
+    () => (reference ? pairReferenceFigures(images, reference.files, movedFrom) : new Map<string, string>()),
+    [images, reference, movedFrom]
+  );
 
-  const handleChoice = useCallback((choice: string) => {
+  // Score every pair in the background so the Timeline can sort by difference
+  // Scores remember the pair of Files they were computed from, so a rescan only compares new and rewritten figures
+  const comparedFilesRef = useRef(new Map<string, [File, File]>());
+  useEffect(() => {
+    const compared = comparedFilesRef.current;
+    const pairFiles = (image: string): [File, File] | null => {
+      const file = imageFiles.get(image);
+      const referenceKey = referencePairs.get(image);
+      const referenceFile = referenceKey ? reference?.files.get(referenceKey) : undefined;
+      return file && referenceFile ? [file, referenceFile] : null;
+    };
+    const isCurrent = (image: string) => {
+      const files = pairFiles(image);
+      const done = compared.get(image);
+      return !!files && !!done && done[0] === files[0] && done[1] === files[1];
+    };
+    setDifferenceScores(prev => new Map(Array.from(prev).filter(([image]) => isCurrent(image))));
+    const pending = Array.from(referencePairs.keys()).filter(image => pairFiles(image) && !isCurrent(image));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      let batch = new Map<string, number>();
+      const publish = () => {
+        const scores = batch;
+        scores.forEach((_, image) => compared.set(image, pairFiles(image)!));
+        setDifferenceScores(prev => new Map([...prev, ...scores]));
+        batch = new Map();
+      };
+      for (const image of pending) {
+        const [file, referenceFile] = pairFiles(image)!;
+        const referenceKey = referencePairs.get(image)!;
+        try {
+          const { score } = await computeDifference({ key: image, file }, { key: referenceKey, file: referenceFile });
+          batch.set(image, score);
+        } catch (error) {
+          console.error(`Failed to compare ${image} with ${referenceKey}:`, error);
+        }
+        if (cancelled) return;
+        // Publish progress in batches to keep re-sorting the Timeline cheap
+        if (batch.size === 20) publish();
+      }
+      publish();
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [referencePairs, reference, imageFiles]);
+
+  // Pre-screen every figure once per directory; thresholds are applied afterwards.
+  // Analyses remember the File they were made from, so a rescan only analyses new and rewritten figures.
+  const analyzedFilesRef = useRef(new Map<string, File>());
+  useEffect(() => {
+    const analyzed = analyzedFilesRef.current;
+    const isCurrent = (image: string) => imageFiles.has(image) && analyzed.get(image) === imageFiles.get(image);
+    setFigureAnalyses(prev => new Map(Array.from(prev).filter(([image]) => isCurrent(image))));
+    const pending = images.filter(image => imageFiles.has(image) && !isCurrent(image));
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      let batch = new Map<string, FigureAnalysis>();
+      const publish = () => {
+        const analyses = batch;
+        analyses.forEach((_, image) => analyzed.set(image, imageFiles.get(image)!));
+        setFigureAnalyses(prev => new Map([...prev, ...analyses]));
+        batch = new Map();
+      };
+      for (const image of pending) {
+        batch.set(image, await analyzeFigure(image, imageFiles.get(image)!));
+        if (cancelled) return;
+        if (batch.size === 20) publish();
+      }
+      publish();
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [images, imageFiles]);
+
+  const qualityFlags = useMemo(
+    () => evaluateQualityChecks(figureAnalyses, qualityThresholds),
+    [figureAnalyses, qualityThresholds]
+  );
+
+  // Thresholds are stored in localStorage, which is only available after mount
+  useEffect(() => {
+    setQualityThresholds(loadQualityThresholds());
+  }, []);
+
+  const updateQualityThresholds = (thresholds: QualityThresholds) => {
+    setQualityThresholds(thresholds);
+    saveQualityThresholds(thresholds);
+  };
+
+  // Metadata read from a File that was since replaced or removed is dropped
+  const metadataFilesRef = useRef(new Map<string, File>());
+  useEffect(() => {
+    setFigureMetadata(prev => new Map(Array.from(prev).filter(([image]) =>
+      imageFiles.has(image) && metadataFilesRef.current.get(image) === imageFiles.get(image))));
+  }, [imageFiles]);
+
+  // Embedded metadata is read for the figure on screen as it is shown
+  useEffect(() => {
+    const image = images[currentImageIndex];
+    const file = image ? imageFiles.get(image) : undefined;
+    if (!file || figureMetadata.has(image)) return;
+
+    let cancelled = false;
+    readFigureMetadata(file).then(metadata => {
+      if (cancelled) return;
+      metadataFilesRef.current.set(image, file);
+      setFigureMetadata(prev => new Map(prev).set(image, metadata));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [images, currentImageIndex, imageFiles, figureMetadata]);
+
+  // Exported metadata fields are stored in localStorage, which is only available after mount
+  useEffect(() => {
+    setMetadataColumns(loadMetadataColumns());
+  }, []);
+
+  const updateMetadataColumns = (columns: string[]) => {
+    setMetadataColumns(columns);
+    saveMetadataColumns(columns);
+  };
+
+  // Figures labeled some other way (a loaded CSV, a session saved without file details) count as labeled as they are now
+  useEffect(() => {
+    setLabeledFiles(prev => {
+      const missing = Array.from(imageChoices)
+        .filter(([image, entry]) => !prev.has(image) && hasAnyValue(entry) && imageFiles.has(image))
+        .map(([image]) => image);
+      if (missing.length === 0) return prev;
+      const next = new Map(prev);
+      missing.forEach(image => next.set(image, fileFingerprint(imageFiles.get(image)!)));
+      return next;
+    });
+  }, [imageChoices, imageFiles]);
+
+  // Hash labeled figures' files in the background, so a rescan can tell a file saved again unchanged from a rewrite
+  useEffect(() => {
+    const pending = Array.from(labeledFiles).filter(([image, fingerprint]) => {
+      const file = imageFiles.get(image);
+      return !fingerprint.hash && !!file && sameFingerprint(fingerprint, fileFingerprint(file));
+    });
+    if (pending.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      // Pages of one document share a File; hash it once
+      const hashes = new Map<File, string>();
+      let batch = new Map<string, FileFingerprint>();
+      const publish = () => {
+        const hashed = batch;
+        if (hashed.size === 0) return;
+        setLabeledFiles(prev => {
+          const next = new Map(prev);
+          hashed.forEach((fingerprint, image) => {
+            const current = prev.get(image);
+            if (current && !current.hash && sameFingerprint(current, fingerprint)) next.set(image, fingerprint);
+          });
+          return next;
+        });
+        batch = new Map();
+      };
+      for (const [image, fingerprint] of pending) {
+        const file = imageFiles.get(image)!;
+        try {
+          if (!hashes.has(file)) hashes.set(file, await hashFile(file));
+          batch.set(image, { ...fingerprint, hash: hashes.get(file) });
+        } catch (error) {
+          console.error(`Failed to hash ${image}:`, error);
+        }
+        if (cancelled) return;
+        if (batch.size === 20) publish();
+      }
+      publish();
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [labeledFiles, imageFiles]);
+
+  // Labeled figures whose file was rewritten after labeling; they need another look
+  const changedImages = useMemo(
+    () => new Set(Array.from(labeledFiles)
+      .filter(([image, fingerprint]) => {
+        const file = imageFiles.get(image);
+        return !!file && hasAnyValue(imageChoices.get(image)) && !sameFingerprint(fingerprint, fileFingerprint(file));
+      })
+      .map(([image]) => image)),
+    [labeledFiles, imageFiles, imageChoices]
+  );
+
+  // Choices with the earlier labels of figures a running review pass hasn't re-checked yet
+  const labeledChoices = useMemo(
+    () => knownChoices(passes, imageChoices, attributes),
+    [passes, imageChoices, attributes]
+  );
+
+  // Imported reviewers, joined by this session's own labels once there are any
+  const allReviews = useMemo(
+    () => (reviews.length > 0 && labeledChoices.size > 0
+      ? [{ reviewer: SESSION_REVIEWER, choices: labeledChoices }, ...reviews]
+      : reviews),
+    [reviews, labeledChoices]
+  );
+
+  const disagreements = useMemo(
+    () => (allReviews.length >= 2 ? findDisagreements(allReviews, images, attributes) : new Set<string>()),
+    [allReviews, images, attributes]
+  );
+
+  const importReviewerFiles = async (files: FileList) => {
+    const imported: ReviewerResults[] = [];
+    const problems: string[] = [];
+    for (const file of Array.from(files)) {
+      let text: string;
+      try {
+        text = await file.text();
+      } catch (error) {
+        console.error(`Failed to read ${file.name}:`, error);
+        problems.push(`${file.name}: could not be read`);
+        continue;
+      }
+      const result = parseResultsCsv(text, attributes);
+      if (!result.ok) {
+        problems.push(`${file.name}: ${result.error}`);
+        continue;
+      }
+      const reviewer = prompt(`Reviewer name for ${file.name}`, file.name.replace(/\.csv$/i, ''))?.trim();
+      if (!reviewer) {
+        problems.push(`${file.name}: skipped, no reviewer name given`);
+        continue;
+      }
+      if (reviewer === SESSION_REVIEWER) {
+        problems.push(`${file.name}: "${SESSION_REVIEWER}" is reserved for the current labels`);
+        continue;
+      }
+      // Each reviewer counts once in agreement; within one import a name can't stand for two files
+      if (imported.some(i => i.reviewer === reviewer)) {
+        problems.push(`${file.name}: skipped, "${reviewer}" was already given to another file`);
+        continue;
+      }
+      if (result.errors.length > 0) {
+        problems.push(`${file.name}: ${describeRowErrors(result.errors)}`);
+      }
+      imported.push({ reviewer, choices: result.choices });
+    }
+
+    // Re-importing a reviewer replaces their earlier results
+    setReviews(prev => [
+      ...prev.filter(review => !imported.some(i => i.reviewer === review.reviewer)),
+      ...imported,
+    ]);
+    setError(problems.length > 0
+      ? `${imported.length} reviewer file(s) imported. ${problems.join(' / ')}`
+      : `${imported.length} reviewer file(s) imported.`);
+  };
+
+  // Summaries go next to the results file when the directory is writable, otherwise they are downloaded
+  const exportSummary = async (extension: 'csv' | 'json', content: string) => {
+    const filename = inPlaceFileName ? summaryFileName(inPlaceFileName, extension) : standaloneSummaryFileName(new Date(), extension);
+    try {
+      if (directoryHandle && await requestWritePermission(directoryHandle)) {
+        await writeResultsFile(directoryHandle, filename, content);
+        setError(`Summary saved as ${filename}`);
+      } else {
+        downloadFile(filename, content, extension === 'csv' ? 'text/csv' : 'application/json');
+      }
+    } catch (error) {
+      console.error('Failed to export summary:', error);
+      setError('Failed to export summary');
+    }
+  };
+
+  const exportMergedCsv = () => {
+    // Keep rows for images that are only in a reviewer's file
+    const extraImages = Array.from(new Set(allReviews.flatMap(({ choices }) => Array.from(choices.keys()))))
+      .filter(image => !imageIndexes.has(image))
+      .sort();
+    downloadFile(
+      `merged-${resultsFileName(new Date())}`,
+      formatMergedCsv(allReviews, [...images, ...extraImages], attributes),
+      'text/csv'
+    );
+  };
+
+  // While a review pass runs, only its figures are labeled
+  const currentPass = useMemo(() => activePass(passes), [passes]);
+  // Pass figures deleted from disk since the pass started are skipped
+  const scopeImages = useMemo(
+    () => (currentPass ? currentPass.images.filter(image => imageFiles.has(image)) : images),
+    [currentPass, images, imageFiles]
+  );
+
+  // Images in Timeline order after filtering and sorting; navigation follows this order
+  const timelineImages = useMemo(
+    () => buildTimelineView(scopeImages, { imageFiles, imageChoices, attributes, differenceScores, qualityFlags, disagreements, changedImages }, timelineFilter, timelineSort),
+    [scopeImages, imageFiles, imageChoices, attributes, differenceScores, qualityFlags, disagreements, changedImages, timelineFilter, timelineSort]
+  );
+
+  const imageIndexes = useMemo(() => new Map(images.map((image, index) => [image, index])), [images]);
+
+  // Index (into images) of the image `delta` steps away from `fromIndex` in Timeline order
+  const stepInTimeline = useCallback((fromIndex: number, delta: number, wrap: boolean) => {
+    if (timelineImages.length === 0) return fromIndex;
+    const position = timelineImages.indexOf(images[fromIndex]);
+    if (position === -1) {
+      // The current image is filtered out; start from the edge of the list
+      return imageIndexes.get(timelineImages[delta > 0 ? 0 : timelineImages.length - 1])!;
+    }
+    const target = wrap
+      ? (position + delta + timelineImages.length) % timelineImages.length
+      : Math.min(Math.max(position + delta, 0), timelineImages.length - 1);
+    return imageIndexes.get(timelineImages[target])!;
+  }, [images, timelineImages, imageIndexes]);
+
+  // The Timeline is virtualized, so scroll by position rather than looking up the rendered row
+  const scrollTimelineTo = useCallback((index: number) => {
+    const position = timelineImages.indexOf(images[index]);
+    if (position === -1) return;
+    setTimeout(() => timelineRef.current?.scrollToIndex(position), 0);
+  }, [images, timelineImages]);
+
+  const recordAction = useCallback((description: string, before: HistorySnapshot, after: HistorySnapshot, coalesceKey?: string) => {
+    setHistory(prev => pushHistory(prev, { description, before, after, coalesceKey }));
+  }, []);
+
+  const handleChoice = useCallback((attributeName: string, value: string) => {
     if (images.length === 0 || allFiguresChecked) return;
 
     const image = images[currentImageIndex];
     
-    // Update image choices
-    const updatedChoices = new Map(imageChoices.set(image, choice));
+    // Update the attribute (or follow-up answer) for this image, dropping answers the new value no longer leads to
+    const currentEntry = imageChoices.get(image);
+    const updatedEntry = pruneFollowUps(attributes, { ...currentEntry, values: { ...currentEntry?.values, [attributeName]: value } });
+    const updatedChoices = new Map(imageChoices).set(image, updatedEntry);
     setImageChoices(updatedChoices);
+    // Labeling a changed figure again counts as its re-review
+    const file = imageFiles.get(image);
+    if (file) {
+      setLabeledFiles(prev => {
+        const recorded = prev.get(image);
+        return recorded && sameFingerprint(recorded, fileFingerprint(file)) ? prev : new Map(prev).set(image, fileFingerprint(file));
+      });
+    }
     
-    // Check if all figures are now checked for the first time
-    if (!allFiguresChecked && !hasShownAllCheckedMessage && images.every(img => updatedChoices.has(img))) {
-      setAllFiguresChecked(true);
-      setHasShownAllCheckedMessage(true);
-      return; // Don't move to next image when all are checked for the first time
+    const description = `${image}: ${attributes.length > 1 ? `${attributeName} = ` : ''}${value}`;
+    const before = { choices: imageChoices, currentImageIndex };
+    
+    // Stay on this image until every required attribute has a value and its follow-up questions are answered, and
+    // don't move to next image when all are checked for the first time
+    const allChecked = !allFiguresChecked && !hasShownAllCheckedMessage && scopeImages.every(img => isEntryComplete(attributes, updatedChoices.get(img)));
+    if (!isEntryComplete(attributes, updatedEntry) || allChecked) {
+      recordAction(description, before, { choices: updatedChoices, currentImageIndex });
+      if (allChecked) {
+        setAllFiguresChecked(true);
+        setHasShownAllCheckedMessage(true);
+      }
+      return;
     }
     
-    // Move to next image or cycle back to first
-    const nextIndex = currentImageIndex < images.length - 1 ? currentImageIndex + 1 : 0;
+    // Move to next image in the Timeline or cycle back to first
+    const nextIndex = stepInTimeline(currentImageIndex, 1, true);
     setCurrentImageIndex(nextIndex);
+    recordAction(description, before, { choices: updatedChoices, currentImageIndex: nextIndex });
     
     // Scroll to the next image in Timeline
-    setTimeout(() => {
-      if (timelineRef.current) {
-        const timelineItems = timelineRef.current.children;
-        if (timelineItems[nextIndex]) {
-          timelineItems[nextIndex].scrollIntoView({
-            behavior: 'instant',
-            block: 'start'
-          });
-        }
+    scrollTimelineTo(nextIndex);
+  }, [images, scopeImages, currentImageIndex, imageChoices, imageFiles, attributes, allFiguresChecked, hasShownAllCheckedMessage, recordAction, scrollTimelineTo, stepInTimeline]);
+
+  // Remove all attribute values from an image, keeping its comment
+  const clearChoice = useCallback((image: string) => {
+    const entry = imageChoices.get(image);
+    if (!hasAnyValue(entry)) return;
+
+    const updatedChoices = new Map(imageChoices);
+    if (entry!.comment) {
+      updatedChoices.set(image, { values: {}, comment: entry!.comment });
+    } else {
+      updatedChoices.delete(image);
+    }
+    setImageChoices(updatedChoices);
+    recordAction(
+      `${image}: label cleared`,
+      { choices: imageChoices, currentImageIndex },
+      { choices: updatedChoices, currentImageIndex }
+    );
+  }, [imageChoices, currentImageIndex, recordAction]);
+
+  const updateComment = useCallback((image: string, comment: string) => {
+    const updatedChoices = new Map(imageChoices);
+    const entry: ImageEntry = { values: {}, ...imageChoices.get(image), comment };
+    if (!comment) {
+      delete entry.comment;
+    }
+    if (entry.comment || Object.keys(entry.values).length > 0) {
+      updatedChoices.set(image, entry);
+    } else {
+      updatedChoices.delete(image);
+    }
+    setImageChoices(updatedChoices);
+    recordAction(
+      `${image}: comment edited`,
+      { choices: imageChoices, currentImageIndex },
+      { choices: updatedChoices, currentImageIndex },
+      `comment:${image}`
+    );
+  }, [imageChoices, currentImageIndex, recordAction]);
+
+  const applyHistory = useCallback((result: ReturnType<typeof undoHistory>, verb: string) => {
+    if (!result) return;
+    setHistory(result.state);
+    setImageChoices(result.snapshot.choices);
+    setCurrentImageIndex(result.snapshot.currentImageIndex);
+    setAllFiguresChecked(false);
+    setError(`${verb}: ${result.entry.description}`);
+    scrollTimelineTo(result.snapshot.currentImageIndex);
+  }, [scrollTimelineTo]);
+
+  const undo = useCallback(() => applyHistory(undoHistory(history), 'Undone'), [applyHistory, history]);
+  const redo = useCallback(() => applyHistory(redoHistory(history), 'Redone'), [applyHistory, history]);
+
+  const updateRegions = useCallback((image: string, update: (regions: Region[]) => Region[]) => {
+    setImageRegions(prev => {
+      const regions = update(prev.get(image) ?? []);
+      const updatedRegions = new Map(prev);
+      if (regions.length > 0) {
+        updatedRegions.set(image, regions);
+      } else {
+        updatedRegions.delete(image);
+      }
+      return updatedRegions;
+    });
+  }, []);
+
+  const hasRegions = Array.from(imageRegions.values()).some(regions => regions.length > 0);
+
+  // Metadata columns need every exported figure read; those not shown yet are read now
+  const readExportMetadata = useCallback(async () => {
+    if (metadataColumns.length === 0) return figureMetadata;
+    const read = new Map<string, FigureMetadata>();
+    for (const image of imageChoices.keys()) {
+      const file = imageFiles.get(image);
+      if (file && !figureMetadata.has(image)) {
+        read.set(image, await readFigureMetadata(file));
+        metadataFilesRef.current.set(image, file);
+      }
+    }
+    if (read.size === 0) return figureMetadata;
+    setFigureMetadata(prev => new Map([...read, ...prev]));
+    return new Map([...figureMetadata, ...read]);
+  }, [metadataColumns, figureMetadata, imageChoices, imageFiles]);
+
+  // One column per attribute, follow-up question and earlier pass value, followed by the comment and selected metadata fields
+  const buildResultsCsv = useCallback((metadata: Map<string, FigureMetadata>) => formatCsv(
+    [
+      'Image',
+      ...attributes.map(attribute => attribute.name),
+      ...followUpColumns(attributes),
+      ...passes.flatMap(pass => attributes.map(attribute => passColumnName(attribute.name, pass))),
+      'Comment',
+      'Checks',
+      ...(reference ? ['Difference'] : []),
+      ...metadataColumns,
+    ],
+    Array.from(labeledChoices.entries())
+      .map(([image, entry]) => [
+        image,
+        ...attributes.map(attribute => entry.values[attribute.name] ?? ''),
+        ...followUpColumns(attributes).map(name => entry.values[name] ?? ''),
+        // Values from before each review pass, empty for figures outside it
+        ...passes.flatMap(pass => attributes.map(attribute => pass.original.get(image)?.values[attribute.name] ?? '')),
+        entry.comment ?? '',
+        formatQualityFlags(qualityFlags.get(image)),
+        // Fraction of the maximum possible per-pixel difference, empty when the image has no reference
+        ...(reference ? [differenceScores.get(image)?.toFixed(6) ?? ''] : []),
+        ...metadataColumns.map(column => metadataFieldValue(metadata.get(image), column)),
+      ])
+  ), [labeledChoices, attributes, passes, qualityFlags, reference, differenceScores, metadataColumns]);
+
+  // Write (or re-write) this session's results file directly into the figure directory
+  const writeResultsInPlace = useCallback(async () => {
+    if (!directoryHandle || (imageChoices.size === 0 && !hasRegions)) return;
+
+    const csvContent = buildResultsCsv(await readExportMetadata());
+    if (csvContent + formatRegionsFile(imageRegions) === lastWrittenCsvRef.current) return;
+
+    const filename = inPlaceFileName ?? resultsFileName(new Date());
+    await writeResultsFile(directoryHandle, filename, csvContent);
+    if (hasRegions) {
+      await writeResultsFile(directoryHandle, regionsFileName(filename), formatRegionsFile(imageRegions));
+    } else {
+      // All regions were deleted; don't leave the previous annotations next to the new CSV
+      await removeResultsFile(directoryHandle, regionsFileName(filename));
+    }
+    lastWrittenCsvRef.current = csvContent + formatRegionsFile(imageRegions);
+    setInPlaceFileName(filename);
+    recordWrittenResults(directory, filename);
+    await rotateResultsFiles(directoryHandle, directory, keepResultFiles);
+  }, [directory, directoryHandle, imageChoices, buildResultsCsv, readExportMetadata, inPlaceFileName, keepResultFiles, hasRegions, imageRegions]);
+
+  const toggleSaveInPlace = async () => {
+    if (saveInPlace) {
+      setSaveInPlace(false);
+      return;
+    }
+    if (!directoryHandle) return;
+
+    try {
+      if (!(await requestWritePermission(directoryHandle))) {
+        setError('Write permission for the directory was denied');
+        return;
       }
-    }, 0);
-  }, [images, currentImageIndex, imageChoices, allFiguresChecked, hasShownAllCheckedMessage]);
+      lastWrittenCsvRef.current = '';
+      setInPlaceFileName(null);
+      setSaveInPlace(true);
+      setError('');
+    } catch (error) {
+      console.error('Failed to request write permission:', error);
+      setError('Failed to request write permission');
+    }
+  };
 
   const saveCsv = useCallback(async () => {
-    if (imageChoices.size === 0) {
+    if (imageChoices.size === 0 && !hasRegions) {
       setError('No choices to save');
       return;
     }
 
     try {
+      if (saveInPlace && directoryHandle) {
+        // Force a write even when nothing changed since the last periodic save
+        lastWrittenCsvRef.current = '';
+        await writeResultsInPlace();
+        setError('CSV saved to the selected directory');
+        return;
+      }
+
       // Generate date-time-based filename
-      const now = new Date();
-      const dateString = now.toISOString().split('T')[0]; // YYYY-MM-DD format
-      const timeString = now.toTimeString().split(' ')[0].slice(0, 5); // HH:MM format
-      const filename = `results-${dateString}-${timeString.replace(':', '')}.csv`;
-      
-      // Create CSV content
-      const csvContent = 'Image,Choice\n' + 
-        Array.from(imageChoices.entries())
-          .map(([image, choice]) => `${image},${choice}`)
-          .join('\n');
+      const filename = resultsFileName(new Date());
       
       // Always use File System Access API's showSaveFilePicker if available
       if ('showSaveFilePicker' in window) {
@@ -181,9 +913,39 @@ export default function Home() {
             ],
           });
           
+          // Built after the picker: reading metadata can outlast the click that allows opening it
+          const csvContent = buildResultsCsv(await readExportMetadata());
           const writable = await fileHandle.createWritable();
           await writable.write(csvContent);
           await writable.close();
+          
+          // Region annotations go into a sidecar JSON file next to the CSV
+          if (hasRegions) {
+            let regionsHandle;
+            try {
+              // @ts-expect-error - showSaveFilePicker not in TypeScript definitions
+              regionsHandle = await window.showSaveFilePicker({
+                suggestedName: regionsFileName(fileHandle.name),
+                startIn: fileHandle,
+                types: [
+                  {
+                    description: 'Region annotations',
+                    accept: { 'application/json': ['.json'] },
+                  },
+                ],
+              });
+            } catch (error) {
+              // The CSV is already written; say that the regions were left out
+              if (error instanceof Error && error.name === 'AbortError') {
+                setError('CSV saved; region annotations were not saved');
+                return;
+              }
+              throw error;
+            }
+            const regionsWritable = await regionsHandle.createWritable();
+            await regionsWritable.write(formatRegionsFile(imageRegions));
+            await regionsWritable.close();
+          }
           setError('CSV saved successfully');
         } catch (error) {
           // User cancelled the dialog
@@ -194,6 +956,7 @@ export default function Home() {
         }
       } else {
         // Fallback: download CSV file
+        const csvContent = buildResultsCsv(await readExportMetadata());
         const blob = new Blob([csvContent], { type: 'text/csv' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -201,82 +964,379 @@ export default function Home() {
         a.download = filename;
         a.click();
         URL.revokeObjectURL(url);
+        
+        if (hasRegions) {
+          const regionsUrl = URL.createObjectURL(new Blob([formatRegionsFile(imageRegions)], { type: 'application/json' }));
+          const regionsLink = document.createElement('a');
+          regionsLink.href = regionsUrl;
+          regionsLink.download = regionsFileName(filename);
+          regionsLink.click();
+          URL.revokeObjectURL(regionsUrl);
+        }
         setError('CSV downloaded successfully');
       }
     } catch (error) {
       console.error('Failed to save CSV:', error);
       setError('Failed to save CSV');
     }
-  }, [imageChoices]);
+  }, [imageChoices, saveInPlace, directoryHandle, writeResultsInPlace, buildResultsCsv, readExportMetadata, hasRegions, imageRegions]);
+
+  // Reviewer name is stored in localStorage, which is only available after mount
+  useEffect(() => {
+    setReviewerName(loadReviewerName());
+  }, []);
+
+  const updateReviewerName = (name: string) => {
+    setReviewerName(name);
+    saveReviewerName(name);
+  };
+
+  const exportResults = async (format: ExportFormat) => {
+    if (format === 'csv') {
+      await saveCsv();
+      return;
+    }
+
+    const now = new Date();
+    const metadata = {
+      directory,
+      sessionStartedAt: new Date(sessionProgress.startedAt || now.getTime()).toISOString(),
+      exportedAt: now.toISOString(),
+      profile: profileState.activeProfile,
+      attributes,
+      reviewer: reviewerName,
+    };
+    const dimensions = new Map<string, { width: number; height: number }>();
+    figureAnalyses.forEach((analysis, image) => {
+      if (analysis.ok) dimensions.set(image, { width: analysis.width, height: analysis.height });
+    });
+    const records = buildExportRecords(labeledChoices, {
+      imageFiles,
+      dimensions,
+      checks: new Map(Array.from(qualityFlags, ([image, flags]) => [image, Array.from(new Set(flags.map(flag => flag.issue)))])),
+      differenceScores,
+      passes,
+    });
 
-  const processCsvFile = useCallback(async (file: File) => {
     try {
-      const text = await file.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
-        setError('Invalid CSV format');
-        return;
+      const saved = await saveTextFile(
+        exportFileName(resultsFileName(now), format),
+        format === 'json' ? formatResultsJson(metadata, records) : formatResultsJsonl(metadata, records),
+        format === 'json'
+          ? { description: 'JSON files', mime: 'application/json', extension: '.json' }
+          : { description: 'JSON Lines files', mime: 'application/jsonl', extension: '.jsonl' }
+      );
+      if (saved) setError(`${format.toUpperCase()} exported (${records.length} images)`);
+    } catch (error) {
+      console.error('Failed to export results:', error);
+      setError('Failed to export results');
+    }
+  };
+
+  // Copies go to a folder the user picks outside the reviewed directory, so they never turn up as figures to review
+  const pickCopyDestination = async (root: FileSystemDirectoryHandle) => {
+    let destination: FileSystemDirectoryHandle;
+    try {
+      // @ts-expect-error - showDirectoryPicker not in TypeScript definitions
+      destination = await window.showDirectoryPicker({ mode: 'readwrite' });
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error('No destination folder chosen');
       }
-      
-      // Parse CSV (skip header)
-      const newChoices = new Map<string, string>();
-      
-      for (let i = 1; i < lines.length; i++) {
-        const line = lines[i].trim();
-        if (line) {
-          const [imageName, choice] = line.split(',');
-          if (imageName && choice) {
-            newChoices.set(imageName.trim(), choice.trim());
-          }
-        }
+      throw error;
+    }
+    if ((await root.resolve(destination)) !== null) {
+      throw new Error('Choose a destination folder outside the reviewed directory');
+    }
+    return destination;
+  };
+
+  const sortIntoFolders = async (plan: SortPlan, mode: SortMode) => {
+    if (!directoryHandle) {
+      return { done: [], failed: plan.operations.map(({ source }) => ({ source, reason: 'No directory selected' })) };
+    }
+    if (mode === 'copy') {
+      return executeSort(directoryHandle, plan, mode, await pickCopyDestination(directoryHandle));
+    }
+    if (!(await requestWritePermission(directoryHandle))) {
+      return { done: [], failed: plan.operations.map(({ source }) => ({ source, reason: 'Write permission denied' })) };
+    }
+    const result = await executeSort(directoryHandle, plan, mode);
+
+    // Moved files have new paths, so rescan and carry labels over to them
+    if (result.done.length > 0) {
+      const scanned = await scanDirectoryHandle(directoryHandle, isFigureOrSidecar);
+      const { figures, sidecars } = splitSidecars(scanned);
+      const { files, paths } = await expandFigureItems(figures);
+      const currentImage = remapMovedKey(images[currentImageIndex] ?? '', result.done);
+      setImageFiles(files);
+      setImages(paths);
+      setSidecars(sidecars);
+      setImageChoices(prev => remapMovedKeys(prev, result.done));
+      setImageRegions(prev => remapMovedKeys(prev, result.done));
+      setReviews(prev => prev.map(review => ({ ...review, choices: remapMovedKeys(review.choices, result.done) })));
+      // Moved files get a new timestamp; that alone doesn't call for a re-review
+      setLabeledFiles(prev => new Map(Array.from(prev, ([image, fingerprint]) => {
+        const moved = remapMovedKey(image, result.done);
+        const before = imageFiles.get(image);
+        const after = files.get(moved);
+        const unchanged = moved !== image && before && after && sameFingerprint(fingerprint, fileFingerprint(before));
+        return [moved, unchanged ? { ...fileFingerprint(after), hash: fingerprint.hash } : fingerprint];
+      })));
+      setPasses(prev => prev.map(pass => ({
+        ...pass,
+        images: pass.images.map(image => remapMovedKey(image, result.done)),
+        original: remapMovedKeys(pass.original, result.done),
+      })));
+      // Reference figures are still found under the path from before the move
+      setMovedFrom(prev => {
+        const next = new Map(prev);
+        images.forEach(image => {
+          const moved = remapMovedKey(image, result.done);
+          if (moved === image) return;
+          next.set(moved, prev.get(image) ?? image);
+          next.delete(image);
+        });
+        return next;
+      });
+      // Undo snapshots refer to the old paths
+      setHistory(EMPTY_HISTORY);
+      setCurrentImageIndex(Math.max(paths.indexOf(currentImage), 0));
+    }
+    return result;
+  };
+
+  const startReviewPass = (name: string, scope: PassScope) => {
+    const scoped = selectPassImages(images, scope, { imageChoices, attributes, qualityFlags });
+    if (scoped.length === 0) return;
+    const { pass, choices } = startPass(name, scope, scoped, imageChoices);
+    setImageChoices(choices);
+    setPasses(prev => [...prev, pass]);
+    // Undo snapshots from before the pass would bring back the labels it cleared
+    setHistory(EMPTY_HISTORY);
+    setTimelineFilter(DEFAULT_TIMELINE_FILTER);
+    setAllFiguresChecked(false);
+    setHasShownAllCheckedMessage(false);
+    setShowPasses(false);
+    setCurrentImageIndex(imageIndexes.get(scoped[0])!);
+    setError(`Review pass "${name}" started with ${scoped.length} figures`);
+  };
+
+  // Back to the whole directory; the pass stays available for comparison and export.
+  // Figures left unchecked get their earlier labels back.
+  const finishReviewPass = () => {
+    setImageChoices(labeledChoices);
+    setPasses(prev => prev.map(pass => (pass === currentPass ? { ...pass, finishedAt: Date.now() } : pass)));
+    setAllFiguresChecked(false);
+    setHasShownAllCheckedMessage(false);
+  };
+
+  // Pick up figures added, rewritten or deleted since the directory was scanned
+  const rescanDirectory = useCallback(async () => {
+    if (!directoryHandle || rescanningRef.current) return;
+    rescanningRef.current = true;
+    try {
+      const found = await scanDirectoryHandle(directoryHandle, isFigureOrSidecar);
+      const scanned = splitSidecars(found);
+      const { files, paths } = await expandFigureItems(scanned.figures, imageFiles);
+      const changes = await diffScan(imageFiles, files, labeledFiles);
+      if (!sameSidecars(sidecars, scanned.sidecars)) {
+        setSidecars(scanned.sidecars);
       }
-      
-      setImageChoices(newChoices);
-      
-      // Set current image index to first unselected image
-      const firstUnselectedIndex = images.findIndex(image => !newChoices.has(image));
-      if (firstUnselectedIndex !== -1) {
-        setCurrentImageIndex(firstUnselectedIndex);
-      } else {
-        // All images are selected, go to first image
-        setCurrentImageIndex(0);
+      if (!hasScanChanges(changes)) return;
+
+      // Untouched figures keep their File, so analyses, scores and metadata are only redone for the others
+      const kept = new Map(Array.from(files, ([key, file]) => {
+        const previous = imageFiles.get(key);
+        const untouched = previous && sameFingerprint(fileFingerprint(previous), fileFingerprint(file));
+        return [key, untouched ? previous : file];
+      }));
+      setImageFiles(kept);
+      setImages(paths);
+      // Stay on the same figure even if it moved in the list; the user may have navigated during the scan
+      setCurrentImageIndex(index => Math.max(paths.indexOf(images[index]), 0));
+      // Files saved again with the content they were labeled with aren't a change
+      if (changes.touched.length > 0) {
+        setLabeledFiles(prev => {
+          const next = new Map(prev);
+          changes.touched.forEach(image => next.set(image, { ...fileFingerprint(kept.get(image)!), hash: prev.get(image)?.hash }));
+          return next;
+        });
       }
-      
-      setError(`CSV loaded successfully. ${newChoices.size} choices loaded.`);
+      // Deleted figures leave the Timeline, but their labels stay in imageChoices and the results
+      setRemovedImages(prev => Array.from(new Set([
+        ...prev.filter(image => !files.has(image)),
+        ...changes.removed.filter(image => imageChoices.has(image)),
+      ])));
+      if (changes.added.length > 0 || changes.changed.length > 0) {
+        setAllFiguresChecked(false);
+        setHasShownAllCheckedMessage(false);
+      }
+      if (changes.added.length > 0 || changes.changed.length > 0 || changes.removed.length > 0) {
+        setError(`Directory updated: ${changes.added.length} new, ${changes.changed.length} changed, ${changes.removed.length} removed`);
+      }
+    } finally {
+      rescanningRef.current = false;
+    }
+  }, [directoryHandle, imageFiles, images, imageChoices, sidecars, labeledFiles]);
+
+  const rescanDirectoryRef = useRef(rescanDirectory);
+  useEffect(() => {
+    rescanDirectoryRef.current = rescanDirectory;
+  }, [rescanDirectory]);
+
+  const refreshDirectory = useCallback(() => {
+    rescanDirectoryRef.current().catch(error => {
+      console.error('Failed to rescan directory:', error);
+      setError('Failed to rescan the selected directory');
+    });
+  }, []);
+
+  // Watch mode: rescan on change notifications where FileSystemObserver exists, otherwise poll
+  useEffect(() => {
+    if (!watchDirectory || !directoryHandle) return;
+
+    let stopped = false;
+    let interval: ReturnType<typeof setInterval> | undefined;
+    const poll = () => {
+      interval = setInterval(refreshDirectory, WATCH_INTERVAL_MS);
+    };
+
+    if (!supportsFileSystemObserver()) {
+      poll();
+      return () => clearInterval(interval);
+    }
+
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    // @ts-expect-error - FileSystemObserver not in TypeScript definitions
+    const observer = new FileSystemObserver(() => {
+      clearTimeout(timeout);
+      timeout = setTimeout(refreshDirectory, WATCH_DEBOUNCE_MS);
+    });
+    // Observing can be refused (e.g. for some file systems); polling still works there
+    observer.observe(directoryHandle, { recursive: true }).catch((error: unknown) => {
+      console.error('Failed to observe directory, polling instead:', error);
+      observer.disconnect();
+      if (!stopped) poll();
+    });
+    return () => {
+      stopped = true;
+      clearTimeout(timeout);
+      clearInterval(interval);
+      observer.disconnect();
+    };
+  }, [watchDirectory, directoryHandle, refreshDirectory]);
+
+  // Periodically re-write the results file while save in place is on
+  const writeResultsInPlaceRef = useRef(writeResultsInPlace);
+  useEffect(() => {
+    writeResultsInPlaceRef.current = writeResultsInPlace;
+  }, [writeResultsInPlace]);
+
+  useEffect(() => {
+    if (!saveInPlace) return;
+
+    const interval = setInterval(() => {
+      writeResultsInPlaceRef.current().catch(error => {
+        console.error('Failed to write results in place:', error);
+        setError('Failed to write results to the selected directory');
+      });
+    }, SAVE_IN_PLACE_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [saveInPlace]);
+
+  const readRegionsFile = async (file: File) => {
+    try {
+      return parseRegionsFile(await file.text());
+    } catch (error) {
+      console.error('Failed to process regions file:', error);
+      setError(prev => `${prev} Failed to load regions file.`.trim());
+      return null;
+    }
+  };
+
+  // Parse the file and let the user choose how to combine it (and its regions) with the current labels
+  const processCsvFile = useCallback(async (file: File, regionsFile?: File) => {
+    try {
+      const result = parseResultsCsv(await file.text(), attributes);
+      if (!result.ok) {
+        setError(result.error);
+        return;
+      }
+      const regions = regionsFile ? await readRegionsFile(regionsFile) : null;
+      setPendingLoad({ fileName: file.name, choices: result.choices, errors: result.errors, regions, summary: null });
     } catch (error) {
       console.error('Failed to process CSV:', error);
       setError('Failed to process CSV');
     }
-  }, [images]);
+  }, [attributes]);
+
+  const applyPendingLoad = (mode: LoadMode, keepOrphans: boolean) => {
+    if (!pendingLoad) return;
+    const { choices: newChoices, summary } = applyLoad(imageChoices, pendingLoad.choices, images, attributes, mode, keepOrphans);
+    setImageChoices(newChoices);
+    if (pendingLoad.regions) {
+      setImageRegions(applyRegionsLoad(imageRegions, pendingLoad.regions, images, mode, keepOrphans));
+    }
+
+    // Imported labels don't count towards this session's labeling rate
+    const countComplete = (choices: Map<string, ImageEntry>) =>
+      images.filter(image => isEntryComplete(attributes, choices.get(image))).length;
+    const imported = countComplete(newChoices) - countComplete(imageChoices);
+    setSessionProgress(prev => ({ ...prev, labeledAtStart: prev.labeledAtStart + imported }));
+
+    // Set current image index to first unselected image, or the first image when all are selected
+    const firstUnselectedIndex = images.findIndex(image => !isEntryComplete(attributes, newChoices.get(image)));
+    const nextIndex = firstUnselectedIndex !== -1 ? firstUnselectedIndex : 0;
+    setCurrentImageIndex(nextIndex);
+    recordAction(
+      `CSV loaded: ${pendingLoad.fileName}`,
+      { choices: imageChoices, currentImageIndex },
+      { choices: newChoices, currentImageIndex: nextIndex }
+    );
+    setPendingLoad({ ...pendingLoad, summary });
+    const regionsMessage = pendingLoad.regions ? ` Regions loaded for ${pendingLoad.regions.size} images.` : '';
+    setError(pendingLoad.errors.length > 0
+      ? `CSV loaded with ${newChoices.size} choices. ${describeRowErrors(pendingLoad.errors)}${regionsMessage}`
+      : `CSV loaded successfully. ${newChoices.size} choices loaded.${regionsMessage}`);
+  };
+
+  // A .regions.json picked without a CSV has nothing to wait for and replaces the current regions
+  const processRegionsFile = useCallback(async (file: File) => {
+    const loadedRegions = await readRegionsFile(file);
+    if (loadedRegions) {
+      setImageRegions(loadedRegions);
+      setError(`Regions loaded for ${loadedRegions.size} images.`);
+    }
+  }, []);
+
+  // Accepts a results CSV and optionally its .regions.json sidecar
+  const processSelectedFiles = useCallback(async (files: FileList | null) => {
+    const selected = Array.from(files ?? []);
+    const csvFile = selected.find(file => /\.csv$/i.test(file.name));
+    const regionsFile = selected.find(file => /\.json$/i.test(file.name));
+    if (csvFile) {
+      await processCsvFile(csvFile, regionsFile);
+    } else if (regionsFile) {
+      await processRegionsFile(regionsFile);
+    }
+  }, [processCsvFile, processRegionsFile]);
 
   const loadCsv = useCallback(async () => {
     try {
       if (directoryHandle) {
         // Find the most recent results-*.csv file
-        const csvFiles: { name: string; handle: FileSystemFileHandle }[] = [];
-        
-        // @ts-expect-error - FileSystemDirectoryHandle async iterator
-        for await (const [name, handle] of directoryHandle) {
-          if (handle.kind === 'file' && /^results-\d{4}-\d{2}-\d{2}-\d{4}\.csv$/.test(name)) {
-            csvFiles.push({ name, handle });
-          }
-        }
-        
-        // Sort by date (newest first)
-        csvFiles.sort((a, b) => b.name.localeCompare(a.name));
+        const csvFiles = await listResultsFiles(directoryHandle);
         
         // Show file picker with default suggestion
         const input = document.createElement('input');
         input.type = 'file';
-        input.accept = '.csv';
-        input.multiple = false;
+        input.accept = '.csv,.json';
+        input.multiple = true;
         
         input.onchange = async (event) => {
-          const file = (event.target as HTMLInputElement).files?.[0];
-          if (file) {
-            await processCsvFile(file);
-          }
+          await processSelectedFiles((event.target as HTMLInputElement).files);
         };
         
         // If we have a recent CSV file, suggest it
@@ -287,7 +1347,17 @@ export default function Home() {
           // or let user choose
           const userWantsRecent = confirm(`Load most recent CSV file: ${csvFiles[0].name}?`);
           if (userWantsRecent) {
-            await processCsvFile(recentFile);
+            // Pick up the region annotations saved alongside it, if any
+            let regionsFile: File | undefined;
+            try {
+              const regionsHandle = await directoryHandle.getFileHandle(regionsFileName(csvFiles[0].name));
+              regionsFile = await regionsHandle.getFile();
+            } catch (error) {
+              if (!(error instanceof DOMException && error.name === 'NotFoundError')) {
+                throw error;
+              }
+            }
+            await processCsvFile(recentFile, regionsFile);
             return;
           }
         }
@@ -297,14 +1367,11 @@ export default function Home() {
         // Fallback: regular file picker
       const input = document.createElement('input');
       input.type = 'file';
-      input.accept = '.csv';
-      input.multiple = false;
+      input.accept = '.csv,.json';
+      input.multiple = true;
       
       input.onchange = async (event) => {
-        const file = (event.target as HTMLInputElement).files?.[0];
-        if (file) {
-          await processCsvFile(file);
-        }
+        await processSelectedFiles((event.target as HTMLInputElement).files);
       };
       
       input.click();
@@ -313,35 +1380,98 @@ export default function Home() {
       console.error('Failed to load CSV:', error);
       setError('Failed to load CSV');
     }
-  }, [directoryHandle, processCsvFile]);
+  }, [directoryHandle, processCsvFile, processSelectedFiles]);
 
   const goToNextUnselected = useCallback(() => {
-    const firstUnselectedIndex = images.findIndex(image => !imageChoices.has(image));
-    if (firstUnselectedIndex !== -1) {
+    const firstUnselected = timelineImages.find(image => !isEntryComplete(attributes, imageChoices.get(image)));
+    if (firstUnselected !== undefined) {
+      const firstUnselectedIndex = imageIndexes.get(firstUnselected)!;
       setCurrentImageIndex(firstUnselectedIndex);
       
       // Scroll to the unselected image in Timeline
-      setTimeout(() => {
-        if (timelineRef.current) {
-          const timelineItems = timelineRef.current.children;
-          if (timelineItems[firstUnselectedIndex]) {
-            timelineItems[firstUnselectedIndex].scrollIntoView({
-              behavior: 'instant',
-              block: 'start'
-            });
-          }
-        }
-      }, 0);
+      scrollTimelineTo(firstUnselectedIndex);
     }
-  }, [images, imageChoices]);
+  }, [timelineImages, imageIndexes, imageChoices, attributes, scrollTimelineTo]);
+
+  const goToAdjacent = useCallback((delta: number) => {
+    if (timelineImages.length === 0) return;
+    const index = stepInTimeline(currentImageIndex, delta, false);
+    setCurrentImageIndex(index);
+    setAllFiguresChecked(false);
+    scrollTimelineTo(index);
+  }, [timelineImages, currentImageIndex, stepInTimeline, scrollTimelineTo]);
+
+  // Shortcut bindings are stored in localStorage, which is only available after mount
+  useEffect(() => {
+    setShortcuts(loadShortcuts());
+  }, []);
+
+  const updateShortcuts = useCallback((bindings: ShortcutBindings) => {
+    setShortcuts(bindings);
+    saveShortcuts(bindings);
+  }, []);
 
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
-      const matchedLabel = labels.find(label => 
-        label.key.toLowerCase() === event.key.toLowerCase()
-      );
-      if (matchedLabel) {
-        handleChoice(matchedLabel.value);
+      // Let text fields receive keys (and their own undo) without triggering shortcuts
+      if (isTypingTarget(event.target) || showShortcuts || showSettings || showReviewers || showStatistics || showPasses || showExport || pendingLoad) return;
+
+      // Label keys take precedence over other shortcuts, and keys of an open follow-up question over labels
+      if (!event.ctrlKey && !event.metaKey && !event.altKey) {
+        const followUp = images.length > 0 ? findPendingFollowUp(attributes, imageChoices.get(images[currentImageIndex])) : null;
+        const answer = followUp?.options.find(option => option.key.toLowerCase() === event.key.toLowerCase());
+        if (followUp && answer) {
+          handleChoice(followUp.name, answer.value);
+          return;
+        }
+        const matched = findLabelByKey(attributes, event.key);
+        if (matched) {
+          handleChoice(matched.attribute.name, matched.label.value);
+          return;
+        }
+      }
+
+      const combo = eventToCombo(event);
+      const action = combo && findShortcutAction(shortcuts, combo);
+      if (!action) return;
+      event.preventDefault();
+
+      switch (action) {
+        case 'next':
+          goToAdjacent(1);
+          break;
+        case 'previous':
+          goToAdjacent(-1);
+          break;
+        case 'nextUnselected':
+          goToNextUnselected();
+          break;
+        case 'zoomIn':
+          viewportRef.current?.zoomBy(ZOOM_STEP);
+          break;
+        case 'zoomOut':
+          viewportRef.current?.zoomBy(1 / ZOOM_STEP);
+          break;
+        case 'zoomReset':
+          viewportRef.current?.reset();
+          break;
+        case 'clearLabel':
+          if (images.length > 0) {
+            clearChoice(images[currentImageIndex]);
+          }
+          break;
+        case 'save':
+          saveCsv();
+          break;
+        case 'undo':
+          undo();
+          break;
+        case 'redo':
+          redo();
+          break;
+        case 'help':
+          setShowShortcuts(true);
+          break;
       }
     };
 
@@ -349,212 +1479,52 @@ export default function Home() {
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
     };
-  }, [handleChoice, labels]);
-
-  const openSettingsWindow = () => {
-    if (settingsWindow && !settingsWindow.closed) {
-      settingsWindow.focus();
-      return;
-    }
+  }, [handleChoice, attributes, imageChoices, undo, redo, shortcuts, showShortcuts, showSettings, showReviewers, showStatistics, showPasses, showExport, pendingLoad, goToAdjacent, goToNextUnselected, clearChoice, saveCsv, images, currentImageIndex]);
 
-    const popup = window.open(
-      '',
-      'settings',
-      'width=600,height=500,scrollbars=yes,resizable=yes,left=' + 
-      (screen.width / 2 - 300) + ',top=' + (screen.height / 2 - 250)
-    );
+  // Label profiles are stored in localStorage, which is only available after mount
+  useEffect(() => {
+    const state = loadProfileState();
+    setProfileState(state);
+    setAttributes(state.profiles.find(profile => profile.name === state.activeProfile)!.attributes);
+  }, []);
 
-    if (!popup) {
-      alert('ポップアップがブロックされました。ブラウザの設定でポップアップを許可してください。');
-      return;
+  const saveSettings = (state: ProfileState, renamedColumns: Map<string, string>) => {
+    setProfileState(state);
+    saveProfileState(state);
+    setAttributes(state.profiles.find(profile => profile.name === state.activeProfile)!.attributes);
+    // Values are stored under the attribute or question name
+    if (renamedColumns.size > 0) {
+      const renameAll = (choices: Map<string, ImageEntry>) =>
+        new Map(Array.from(choices, ([image, entry]) => [image, renameEntryValues(entry, renamedColumns)]));
+      setImageChoices(renameAll);
+      setPasses(prev => prev.map(pass => ({ ...pass, original: renameAll(pass.original) })));
+      setReviews(prev => prev.map(review => ({ ...review, choices: renameAll(review.choices) })));
+      // Undo snapshots still hold the old names
+      setHistory(EMPTY_HISTORY);
     }
-
-    setSettingsWindow(popup);
-
-    popup.document.write(`
-      <!DOCTYPE html>
-      <html>
-        <head>
-          <title>Label Settings</title>
-          <script src="https://cdn.tailwindcss.com"></script>
-          <style>
-            body { font-family: system-ui, -apple-system, sans-serif; }
-          </style>
-        </head>
-        <body class="p-6 bg-gray-50">
-          <div class="max-w-lg mx-auto bg-white rounded-lg shadow-lg p-6">
-            <h2 class="text-xl font-bold mb-4 text-gray-800">Label Settings</h2>
-            
-            <div class="mb-4">
-              <p class="text-sm text-gray-600 mb-2">
-                キーボードショートカット（Key）と保存される値（CSV Value）を設定してください
-              </p>
-            </div>
-
-            <div id="options-container" class="space-y-3">
-              ${labels.map((label, index) => `
-                <div class="flex items-center gap-3 p-3 border border-gray-200 rounded-lg bg-gray-50" data-index="${index}">
-                  <div class="flex-1">
-                    <label class="block text-xs font-medium text-gray-600 mb-1">Keyboard Key</label>
-                    <input
-                      type="text"
-                      placeholder="e.g., y"
-                      value="${label.key}"
-                      class="option-key w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-center font-mono"
-                      maxlength="1"
-                    />
-                  </div>
-                  <div class="flex-1">
-                    <label class="block text-xs font-medium text-gray-600 mb-1">CSV Value</label>
-                    <input
-                      type="text"
-                      placeholder="e.g., Y"
-                      value="${label.value}"
-                      class="option-value w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                  </div>
-                  <button
-                    onclick="removeOption(${index})"
-                    class="text-red-500 hover:text-red-700 p-2 mt-5"
-                    title="削除"
-                  >
-                    ✕
-                  </button>
-                </div>
-              `).join('')}
-            </div>
-            
-            <div class="mt-4">
-              <button
-                onclick="addOption()"
-                class="w-full px-4 py-2 border-2 border-dashed border-gray-300 text-gray-600 rounded hover:border-gray-400 hover:text-gray-700"
-              >
-                + オプションを追加
-              </button>
-            </div>
-            
-            <div class="flex justify-end space-x-2 mt-6">
-              <button
-                onclick="window.close()"
-                class="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
-              >
-                Cancel
-              </button>
-              <button
-                onclick="saveSettings()"
-                class="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
-              >
-                Save
-              </button>
-            </div>
-          </div>
-
-          <script>
-            let optionCount = ${labels.length};
-
-            function addOption() {
-              const container = document.getElementById('options-container');
-              const newIndex = optionCount++;
-              const optionHtml = \`
-                <div class="flex items-center gap-3 p-3 border border-gray-200 rounded-lg bg-gray-50" data-index="\${newIndex}">
-                  <div class="flex-1">
-                    <label class="block text-xs font-medium text-gray-600 mb-1">Keyboard Key</label>
-                    <input
-                      type="text"
-                      placeholder="e.g., g"
-                      value=""
-                      class="option-key w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-center font-mono"
-                      maxlength="1"
-                    />
-                  </div>
-                  <div class="flex-1">
-                    <label class="block text-xs font-medium text-gray-600 mb-1">CSV Value</label>
-                    <input
-                      type="text"
-                      placeholder="e.g., Good"
-                      value=""
-                      class="option-value w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    />
-                  </div>
-                  <button
-                    onclick="removeOption(\${newIndex})"
-                    class="text-red-500 hover:text-red-700 p-2 mt-5"
-                    title="削除"
-                  >
-                    ✕
-                  </button>
-                </div>
-              \`;
-              container.insertAdjacentHTML('beforeend', optionHtml);
-            }
-
-            function removeOption(index) {
-              const option = document.querySelector(\`[data-index="\${index}"]\`);
-              if (option && document.querySelectorAll('#options-container > div').length > 1) {
-                option.remove();
-              } else if (document.querySelectorAll('#options-container > div').length === 1) {
-                alert('最低1つのオプションは必要です');
-              }
-            }
-
-            function saveSettings() {
-              const options = document.querySelectorAll('#options-container > div');
-              const newLabels = [];
-              
-              options.forEach(option => {
-                const key = option.querySelector('.option-key').value.trim();
-                const value = option.querySelector('.option-value').value.trim();
-                
-                if (key && value) {
-                  newLabels.push({ key, value });
-                }
-              });
-              
-              if (newLabels.length === 0) {
-                alert('少なくとも1つの有効なオプションを設定してください');
-                return;
-              }
-              
-              // Check for duplicate keys
-              const keys = newLabels.map(label => label.key.toLowerCase());
-              const uniqueKeys = [...new Set(keys)];
-              if (keys.length !== uniqueKeys.length) {
-                alert('キーボードキーが重複しています。異なるキーを設定してください');
-                return;
-              }
-              
-              if (window.opener && !window.opener.closed) {
-                window.opener.postMessage({ type: 'saveSettings', labels: newLabels }, '*');
-              }
-              
-              window.close();
-            }
-          </script>
-        </body>
-      </html>
-    `);
-
-    popup.document.close();
+    setShowSettings(false);
   };
 
+  // Autosave the session; hold off while a previous session is waiting to be resumed
   useEffect(() => {
-    const handleMessage = (event: MessageEvent) => {
-      if (event.data.type === 'saveSettings') {
-        setLabels(event.data.labels);
-      }
-    };
+    if (!directory || images.length === 0 || resumeOffer) return;
 
-    window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
-  }, []);
+    const timeout = setTimeout(() => {
+      saveSession({
+        directory,
+        images,
+        attributes,
+        choices: Array.from(imageChoices.entries()),
+        regions: Array.from(imageRegions.entries()),
+        passes: serializePasses(passes),
+        labeledFiles: Array.from(labeledFiles),
+        currentImageIndex,
+        updatedAt: Date.now(),
+      }).catch(error => console.error('Failed to autosave session:', error));
+    }, AUTOSAVE_DELAY_MS);
 
-  useEffect(() => {
-    return () => {
-      if (settingsWindow && !settingsWindow.closed) {
-        settingsWindow.close();
-      }
-    };
-  }, [settingsWindow]);
+    return () => clearTimeout(timeout);
+  }, [directory, images, attributes, imageChoices, imageRegions, passes, labeledFiles, currentImageIndex, resumeOffer]);
 
   useEffect(() => {
     const handleBeforeUnload = (event: BeforeUnloadEvent) => {
@@ -586,17 +1556,73 @@ export default function Home() {
           </button>
           <button 
             onClick={saveCsv}
-            disabled={imageChoices.size === 0}
+            disabled={imageChoices.size === 0 && !hasRegions}
             className="bg-green-500 text-white px-4 py-2 rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
           >
             Save CSV
           </button>
+          <button
+            onClick={() => setShowExport(true)}
+            disabled={images.length === 0}
+            className="border border-gray-300 text-gray-600 px-4 py-2 rounded hover:bg-gray-50 disabled:text-gray-300"
+          >
+            Export…
+          </button>
+          {directoryHandle && (
+            <div className="flex items-center gap-2 text-sm border border-gray-300 rounded px-2">
+              <label className="flex items-center gap-1 cursor-pointer" title={inPlaceFileName ?? undefined}>
+                <input
+                  type="checkbox"
+                  checked={saveInPlace}
+                  onChange={toggleSaveInPlace}
+                />
+                Save in place
+              </label>
+              <label className="flex items-center gap-1 text-gray-600" title="Older results files written here are deleted; other results files are left alone">
+                keep
+                <input
+                  type="number"
+                  min={1}
+                  value={keepResultFiles}
+                  onChange={(e) => setKeepResultFiles(Math.max(1, Number(e.target.value) || 1))}
+                  className="w-12 px-1 border border-gray-300 rounded"
+                />
+              </label>
+            </div>
+          )}
+          <button
+            onClick={() => setShowPasses(true)}
+            disabled={images.length === 0}
+            className="border border-gray-300 text-gray-600 px-4 py-2 rounded hover:bg-gray-50 disabled:text-gray-300"
+          >
+            Passes{currentPass && ` (${currentPass.name})`}
+          </button>
+          <button
+            onClick={() => setShowStatistics(true)}
+            disabled={images.length === 0}
+            className="border border-gray-300 text-gray-600 px-4 py-2 rounded hover:bg-gray-50 disabled:text-gray-300"
+          >
+            Statistics
+          </button>
+          <button
+            onClick={() => setShowReviewers(true)}
+            className="border border-gray-300 text-gray-600 px-4 py-2 rounded hover:bg-gray-50"
+          >
+            Reviewers{reviews.length > 0 && ` (${reviews.length})`}
+          </button>
           <button 
-            onClick={openSettingsWindow}
+            onClick={() => setShowSettings(true)}
             className="bg-blue-500 text-white px-4 py-2 rounded"
           >
             Settings
           </button>
+          <button 
+            onClick={() => setShowShortcuts(true)}
+            className="border border-gray-300 text-gray-600 px-3 py-2 rounded hover:bg-gray-50"
+            title="Keyboard shortcuts (?)"
+          >
+            ?
+          </button>
         </div>
       </div>
       
@@ -622,62 +1648,358 @@ export default function Home() {
             onChange={handleDirectoryChange}
             className="hidden"
           />
+          <button
+            onClick={handleReferenceSelect}
+            className="border border-gray-300 text-gray-600 p-2 rounded hover:bg-gray-50"
+            title="Compare figures against a directory with the same file names"
+          >
+            {reference ? 'Change Reference' : 'Select Reference'}
+          </button>
+          <button
+            onClick={refreshDirectory}
+            disabled={!directoryHandle}
+            className="border border-gray-300 text-gray-600 p-2 rounded hover:bg-gray-50 disabled:text-gray-300"
+            title="Rescan the directory for new, changed and deleted figures"
+          >
+            Refresh
+          </button>
+          <label
+            className={`flex items-center gap-1 text-sm ${directoryHandle ? 'text-gray-600' : 'text-gray-300'}`}
+            title={directoryHandle ? 'Keep rescanning while figures are regenerated' : 'Needs a directory opened with the directory picker'}
+          >
+            <input
+              type="checkbox"
+              checked={watchDirectory}
+              disabled={!directoryHandle}
+              onChange={(e) => setWatchDirectory(e.target.checked)}
+            />
+            Watch
+          </label>
+          <input
+            ref={referenceInputRef}
+            type="file"
+            {...({ webkitdirectory: "", directory: "" } as Record<string, string>)}
+            multiple
+            onChange={handleReferenceChange}
+            className="hidden"
+          />
         </div>
         {directory && (
           <div className="text-sm text-gray-600 mt-2">
             Selected directory: {directory}
           </div>
         )}
+        {removedImages.length > 0 && (
+          <div className="text-sm text-orange-700 mt-1" title={removedImages.join('\n')}>
+            {removedImages.length} labeled figure(s) were deleted from the directory; their labels are kept in the results.
+            <button onClick={() => setRemovedImages([])} className="ml-2 underline hover:text-orange-900">Dismiss</button>
+          </div>
+        )}
+        {reference && (
+          <div className="text-sm text-gray-600 mt-1">
+            Reference directory: {reference.name} ({referencePairs.size} of {images.length} figures paired
+            {differenceScores.size < referencePairs.size && `, ${differenceScores.size} scored`})
+            <button onClick={clearReference} className="ml-2 underline hover:text-gray-800">Clear</button>
+          </div>
+        )}
       </div>
 
       {error && <p className="text-red-500">{error}</p>}
 
+      {resumeOffer && (
+        <div className="mb-4 p-4 border border-blue-300 bg-blue-50 rounded">
+          <p className="font-semibold">
+            A saved session for this directory was found ({new Date(resumeOffer.session.updatedAt).toLocaleString()}).
+          </p>
+          <p className="text-sm text-gray-600">
+            {resumeOffer.comparison.restoredCount} labels can be restored.
+            {' '}{resumeOffer.comparison.newImages.length} new and {resumeOffer.comparison.missingImages.length} missing images since last time.
+          </p>
+          {resumeOffer.comparison.newImages.length > 0 && (
+            <details className="text-sm mt-2">
+              <summary className="cursor-pointer">New images</summary>
+              <ul className="ml-4 list-disc text-gray-600">
+                {resumeOffer.comparison.newImages.map(image => <li key={image}>{image}</li>)}
+              </ul>
+            </details>
+          )}
+          {resumeOffer.comparison.missingImages.length > 0 && (
+            <details className="text-sm mt-2">
+              <summary className="cursor-pointer">Missing images</summary>
+              <ul className="ml-4 list-disc text-gray-600">
+                {resumeOffer.comparison.missingImages.map(image => <li key={image}>{image}</li>)}
+              </ul>
+            </details>
+          )}
+          <div className="flex gap-2 mt-3">
+            <button
+              onClick={resumeSession}
+              className="bg-blue-500 text-white px-4 py-2 rounded"
+            >
+              Resume
+            </button>
+            <button
+              onClick={() => setResumeOffer(null)}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Start fresh
+            </button>
+          </div>
+        </div>
+      )}
+
       {images.length > 0 ? (
         allFiguresChecked ? (
           <div className="text-center py-8">
-            <h2 className="text-2xl font-bold text-green-600 mb-4">All figure checked.</h2>
+            <h2 className="text-2xl font-bold text-green-600 mb-4">
+              {currentPass ? `Review pass “${currentPass.name}” complete.` : 'All figure checked.'}
+            </h2>
             <p className="text-gray-600">すべての画像の評価が完了しました。</p>
+            {currentPass && (
+              <button
+                onClick={finishReviewPass}
+                className="mt-4 px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+              >
+                Finish pass
+              </button>
+            )}
           </div>
         ) : (
           <div>
             <div className="mb-2">
               <h2 className="text-lg font-semibold">Current Image:</h2>
               <p className="text-gray-600">{images[currentImageIndex]}</p>
-              <p className="text-sm text-gray-500">Image {currentImageIndex + 1} of {images.length}</p>
-            </div>
-            <div className="overflow-auto mb-4" style={{ maxHeight: '70vh' }}>
-              {/* eslint-disable-next-line @next/next/no-img-element */}
-              <img
-                src={
-                  imageFiles.has(images[currentImageIndex])
-                    ? URL.createObjectURL(imageFiles.get(images[currentImageIndex])!)
-                    : ''
-                }
-                alt={images[currentImageIndex]}
-                className="max-w-full object-contain cursor-zoom-in"
-                style={{
-                  transform: `scale(${zoomLevel})`,
-                  transformOrigin: 'top left',
-                  maxHeight: zoomLevel === 1 ? '70vh' : 'none',
-                  maxWidth: zoomLevel === 1 ? '100%' : 'none',
-                }}
-                onClick={() => setZoomLevel((z) => Math.min(z + 0.5, 5))}
-                onContextMenu={(e) => {
-                  e.preventDefault();
-                  setZoomLevel((z) => Math.max(z - 0.5, 1));
-                }}
-              />
+              <p className="text-sm text-gray-500">
+                Image {currentImageIndex + 1} of {images.length}
+                {timelineImages.length !== images.length && ` (${timelineImages.length} in filtered Timeline)`}
+              </p>
+              {changedImages.has(images[currentImageIndex]) && (
+                <p className="text-sm text-orange-700">🔄 File changed since it was labeled — needs re-review</p>
+              )}
+              {currentPass && (
+                <p className="text-sm text-blue-700">
+                  Review pass “{currentPass.name}” ({describeScope(currentPass.scope)})
+                  {currentPass.original.has(images[currentImageIndex]) && (
+                    <> · before: {attributes.map(attribute => currentPass.original.get(images[currentImageIndex])!.values[attribute.name] || '—').join(' / ')}</>
+                  )}
+                </p>
+              )}
+              {qualityFlags.has(images[currentImageIndex]) && (
+                <ul className="flex flex-wrap gap-1 mt-1">
+                  {qualityFlags.get(images[currentImageIndex])!.map((flag, index) => (
+                    <li key={index} className="text-xs px-2 py-0.5 rounded bg-yellow-100 text-yellow-800" title={flag.detail}>
+                      ⚠ {QUALITY_ISSUE_LABELS[flag.issue]}: {flag.detail}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {allReviews.length >= 2 && (
+                <div className={`text-sm mt-1 ${disagreements.has(images[currentImageIndex]) ? 'text-red-600' : 'text-gray-600'}`}>
+                  {attributes.map(attribute => (
+                    <p key={attribute.name}>
+                      {attributes.length > 1 && `${attribute.name}: `}
+                      {Array.from(collectVotes(allReviews, images[currentImageIndex], attribute.name), ([reviewer, value]) => `${reviewer} → ${value}`).join(', ') || 'No votes'}
+                    </p>
+                  ))}
+                </div>
+              )}
             </div>
-            <div className="flex flex-wrap gap-3">
-              {labels.map((label, index) => (
-                <button 
-                  key={`${label.key}-${label.value}`}
-                  onClick={() => handleChoice(label.value)} 
-                  className={`text-white p-2 px-4 rounded ${getLabelColors(index).bg}`}
+            {reference && (
+              <div className="flex items-center gap-2 mb-2 text-sm">
+                <span className="text-gray-600">Compare:</span>
+                {([
+                  ['off', 'Single'],
+                  ['side-by-side', 'Side by side'],
+                  ['overlay', 'Overlay'],
+                  ['difference', 'Difference'],
+                ] as const).map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => setCompareMode(mode)}
+                    className={`px-2 py-1 rounded border ${
+                      compareMode === mode ? 'bg-gray-700 text-white border-gray-700' : 'border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+                {compareMode === 'overlay' && (
+                  <label className="flex items-center gap-1 text-gray-600">
+                    Reference opacity
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={overlayOpacity}
+                      onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+                    />
+                  </label>
+                )}
+                {differenceScores.has(images[currentImageIndex]) && (
+                  <span className="text-gray-500">Δ {formatDifference(differenceScores.get(images[currentImageIndex])!)}</span>
+                )}
+              </div>
+            )}
+            {compareMode !== 'off' && referencePairs.has(images[currentImageIndex]) ? (
+              <div className="mb-4">
+                <CompareView
+                  mode={compareMode}
+                  itemKey={images[currentImageIndex]}
+                  file={imageFiles.get(images[currentImageIndex])}
+                  referenceKey={referencePairs.get(images[currentImageIndex])!}
+                  referenceFile={reference?.files.get(referencePairs.get(images[currentImageIndex])!)}
+                  opacity={overlayOpacity}
+                />
+              </div>
+            ) : (
+              <>
+                {compareMode !== 'off' && (
+                  <p className="text-sm text-gray-500 mb-2">No reference figure for this image</p>
+                )}
+                <div className="flex items-center gap-2 mb-2 text-sm">
+                  <span className="text-gray-600">Annotate:</span>
+                  {(['none', 'box', 'pin'] as const).map(tool => (
+                    <button
+                      key={tool}
+                      onClick={() => setRegionTool(tool)}
+                      className={`px-2 py-1 rounded border ${
+                        regionTool === tool ? 'bg-gray-700 text-white border-gray-700' : 'border-gray-300 hover:bg-gray-50'
+                      }`}
+                    >
+                      {tool === 'none' ? 'Zoom' : tool === 'box' ? 'Box' : 'Pin'}
+                    </button>
+                  ))}
+                </div>
+                <ZoomViewport
+                  ref={viewportRef}
+                  itemKey={images[currentImageIndex]}
+                  file={imageFiles.get(images[currentImageIndex])}
+                  panEnabled={regionTool === 'none'}
                 >
-                  {label.value} ({label.key})
-                </button>
+                  {(scale) => (
+                    <RegionLayer
+                      regions={imageRegions.get(images[currentImageIndex]) ?? []}
+                      tool={regionTool}
+                      selectedId={selectedRegionId}
+                      scale={scale}
+                      onAdd={(region) => updateRegions(images[currentImageIndex], regions => [...regions, region])}
+                      onSelect={setSelectedRegionId}
+                    />
+                  )}
+                </ZoomViewport>
+                {(imageRegions.get(images[currentImageIndex]) ?? []).length > 0 && (
+                  <ol className="mb-4 space-y-1 text-sm">
+                    {imageRegions.get(images[currentImageIndex])!.map((region, index) => (
+                      <li
+                        key={region.id}
+                        className={`flex items-center gap-2 px-2 py-1 rounded ${region.id === selectedRegionId ? 'bg-yellow-50' : ''}`}
+                      >
+                        <span className="text-gray-500 w-12">{index + 1}. {region.kind}</span>
+                        <input
+                          type="text"
+                          value={region.note}
+                          placeholder="Note"
+                          onFocus={() => setSelectedRegionId(region.id)}
+                          onChange={(e) => updateRegions(images[currentImageIndex], regions =>
+                            regions.map(r => (r.id === region.id ? { ...r, note: e.target.value } : r))
+                          )}
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded"
+                        />
+                        <button
+                          onClick={() => updateRegions(images[currentImageIndex], regions => regions.filter(r => r.id !== region.id))}
+                          className="text-red-500 hover:text-red-700 px-2"
+                          title="Delete"
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </>
+            )}
+            <SidecarPanel sidecars={findSidecars(sidecars, images[currentImageIndex])} />
+            <div className="space-y-3">
+              {attributes.map(attribute => (
+                <div key={attribute.name}>
+                  {attributes.length > 1 && (
+                    <p className="text-sm font-medium text-gray-700 mb-1">
+                      {attribute.name}{attribute.required && <span className="text-red-500">*</span>}
+                    </p>
+                  )}
+                  <div className="flex flex-wrap gap-3">
+                    {attribute.labels.map((label, index) => (
+                      <button 
+                        key={`${label.key}-${label.value}`}
+                        onClick={() => handleChoice(attribute.name, label.value)} 
+                        className={`text-white p-2 px-4 rounded ${getLabelColors(index).bg} ${
+                          imageChoices.get(images[currentImageIndex])?.values[attribute.name] === label.value
+                            ? 'ring-2 ring-offset-2 ring-gray-700'
+                            : ''
+                        }`}
+                      >
+                        {label.value} ({label.key})
+                      </button>
+                    ))}
+                  </div>
+                  {followUpPath(attribute, imageChoices.get(images[currentImageIndex])).map(({ question, answered }) => (
+                    question.kind === 'comment' ? (
+                      !answered && (
+                        <p key={question.name} className="mt-2 ml-4 text-sm text-orange-600">
+                          {question.name}: add a comment below to continue
+                        </p>
+                      )
+                    ) : (
+                      <div key={question.name} className="mt-2 ml-4 pl-3 border-l-2 border-gray-300">
+                        <p className={`text-sm mb-1 ${answered ? 'text-gray-600' : 'text-orange-600 font-medium'}`}>{question.name}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {question.options.map(option => (
+                            <button
+                              key={`${option.key}-${option.value}`}
+                              onClick={() => handleChoice(question.name, option.value)}
+                              className={`text-sm px-3 py-1 rounded border border-gray-300 hover:bg-gray-50 ${
+                                imageChoices.get(images[currentImageIndex])?.values[question.name] === option.value
+                                  ? 'ring-2 ring-offset-1 ring-gray-700'
+                                  : ''
+                              }`}
+                            >
+                              {option.value} ({option.key})
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )
+                  ))}
+                </div>
               ))}
+              {hasAnyValue(imageChoices.get(images[currentImageIndex])) && (
+                <button
+                  onClick={() => clearChoice(images[currentImageIndex])}
+                  className="text-sm px-3 py-1 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  Clear label
+                </button>
+              )}
+            </div>
+            <div className="mt-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Comment</label>
+              <textarea
+                value={imageChoices.get(images[currentImageIndex])?.comment ?? ''}
+                onChange={(e) => updateComment(images[currentImageIndex], e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') {
+                    e.currentTarget.blur();
+                  }
+                }}
+                placeholder="Why was this figure marked this way? (Esc to leave the field)"
+                rows={2}
+                className={`w-full px-3 py-2 border rounded focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  findPendingFollowUp(attributes, imageChoices.get(images[currentImageIndex]))?.kind === 'comment'
+                    ? 'border-orange-400'
+                    : 'border-gray-300'
+                }`}
+              />
             </div>
           </div>
         )
@@ -690,75 +2012,249 @@ export default function Home() {
         {images.length > 0 && (
           <div className="w-80 bg-gray-50 p-4 rounded-lg">
             <h2 className="text-lg font-semibold mb-4">Timeline</h2>
-            <div ref={timelineRef} className="space-y-2 max-h-[600px] overflow-y-auto">
-              {images.map((image, index) => (
-                <div 
-                  key={image}
-                  onClick={() => {
-                    setCurrentImageIndex(index);
-                    if (allFiguresChecked) {
-                      setAllFiguresChecked(false);
-                    }
-                  }}
-                  className={`flex items-center gap-3 p-2 rounded cursor-pointer hover:bg-gray-100 ${
-                    index === currentImageIndex && !allFiguresChecked
-                      ? 'border-2 border-blue-500 bg-blue-50' 
-                      : 'border border-gray-200 bg-white'
-                  }`}
-                >
-                  {/* Thumbnail */}
-                  <div className="w-12 h-12 flex-shrink-0">
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={
-                        imageFiles.has(image)
-                          ? URL.createObjectURL(imageFiles.get(image)!)
-                          : ''
+            <TimelineControls
+              attributes={attributes}
+              filter={timelineFilter}
+              sort={timelineSort}
+              shownCount={timelineImages.length}
+              totalCount={images.length}
+              hasReference={reference !== null}
+              hasReviews={allReviews.length >= 2}
+              hasChanged={changedImages.size > 0}
+              onFilterChange={setTimelineFilter}
+              onSortChange={setTimelineSort}
+            />
+            {timelineImages.length === 0 && (
+              <p className="text-sm text-gray-400">No figures match the filter</p>
+            )}
+            <VirtualList
+              ref={timelineRef}
+              count={timelineImages.length}
+              rowHeight={TIMELINE_ROW_HEIGHT}
+              className="max-h-[600px]"
+              renderRow={position => {
+                const image = timelineImages[position];
+                const index = imageIndexes.get(image)!;
+                return (
+                  <div
+                    key={image}
+                    onClick={() => {
+                      setCurrentImageIndex(index);
+                      if (allFiguresChecked) {
+                        setAllFiguresChecked(false);
                       }
-                      alt={image}
-                      className="w-full h-full object-cover rounded"
-                    />
-                  </div>
+                    }}
+                    className={`flex items-center gap-3 p-2 h-[68px] overflow-hidden rounded cursor-pointer hover:bg-gray-100 ${
+                      index === currentImageIndex && !allFiguresChecked
+                        ? 'border-2 border-blue-500 bg-blue-50' 
+                        : disagreements.has(image)
+                          ? 'border border-red-300 bg-red-50'
+                          : 'border border-gray-200 bg-white'
+                    }`}
+                  >
+                    {/* Thumbnail */}
+                    <div className="w-12 h-12 flex-shrink-0">
+                      <FigureImage
+                        itemKey={image}
+                        file={imageFiles.get(image)}
+                        thumbnail
+                        alt={image}
+                        className="w-full h-full object-cover rounded"
+                      />
+                    </div>
                   
-                  {/* Image info */}
-                  <div className="flex-1 min-w-0">
-                    <p className="text-sm font-medium truncate">{image}</p>
-                    <p className="text-xs text-gray-500">
-                      {imageChoices.has(image) ? (
-                        <span className={`font-medium ${
-                          (() => {
-                            const choice = imageChoices.get(image);
-                            const labelIndex = labels.findIndex(label => label.value === choice);
-                            return getLabelColors(labelIndex).text;
-                          })()
-                        }`}>
-                          Choice: {imageChoices.get(image)}
-                        </span>
-                      ) : (
-                        <span className="text-gray-400">Not selected</span>
+                    {/* Image info */}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate" title={image}>{splitPath(image).name}</p>
+                      {splitPath(image).dir && (
+                        <p className="text-xs text-gray-400 truncate" title={image}>{splitPath(image).dir}/</p>
                       )}
-                    </p>
-                  </div>
+                      <p className="text-xs text-gray-500">
+                        {hasAnyValue(imageChoices.get(image)) ? (
+                          attributes
+                            .filter(attribute => imageChoices.get(image)!.values[attribute.name])
+                            .map(attribute => {
+                              const value = imageChoices.get(image)!.values[attribute.name];
+                              return (
+                                <span
+                                  key={attribute.name}
+                                  className={`font-medium mr-2 ${getLabelColors(getLabelIndex(attribute, value)).text}`}
+                                >
+                                  {attribute.name}: {value}
+                                </span>
+                              );
+                            })
+                        ) : (
+                          <span className="text-gray-400">Not selected</span>
+                        )}
+                        {hasAnyValue(imageChoices.get(image)) && !isEntryComplete(attributes, imageChoices.get(image)) && (
+                          <span className="text-gray-400">(incomplete)</span>
+                        )}
+                        {allReviews.length >= 2 && (
+                          <span
+                            className={`ml-1 ${disagreements.has(image) ? 'text-red-600' : 'text-gray-400'}`}
+                            title={attributes
+                              .flatMap(attribute => Array.from(collectVotes(allReviews, image, attribute.name), ([reviewer, value]) => `${reviewer}: ${value}`))
+                              .join('\n')}
+                          >
+                            🗳 {attributes.map(attribute => Array.from(collectVotes(allReviews, image, attribute.name).values()).join('·')).filter(Boolean).join(' | ') || '–'}
+                          </span>
+                        )}
+                      </p>
+                    </div>
                   
-                  {/* Index indicator */}
-                  <div className="text-xs text-gray-400">
-                    {index + 1}
+                    {/* Comment, check and index indicators */}
+                    <div className="flex flex-col items-end text-xs text-gray-400">
+                      <span className="flex gap-1">
+                        {imageChoices.get(image)?.comment && (
+                          <span title={imageChoices.get(image)!.comment}>💬</span>
+                        )}
+                        {changedImages.has(image) && (
+                          <span className="text-orange-600" title="Changed since labeled">🔄</span>
+                        )}
+                        {qualityFlags.has(image) && (
+                          <span
+                            className="text-yellow-600"
+                            title={qualityFlags.get(image)!.map(flag => `${QUALITY_ISSUE_LABELS[flag.issue]}: ${flag.detail}`).join('\n')}
+                          >
+                            ⚠{qualityFlags.get(image)!.length}
+                          </span>
+                        )}
+                      </span>
+                      {differenceScores.has(image) && (
+                        <span title="Difference to reference">Δ{formatDifference(differenceScores.get(image)!)}</span>
+                      )}
+                      {index + 1}
+                    </div>
                   </div>
-                </div>
-              ))}
-            </div>
+                );
+              }}
+            />
             <div className="mt-4">
               <button 
                 onClick={goToNextUnselected}
-                disabled={images.length === 0 || images.every(image => imageChoices.has(image))}
+                disabled={timelineImages.every(image => isEntryComplete(attributes, imageChoices.get(image)))}
                 className="w-full bg-purple-500 text-white px-4 py-2 rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
               >
                 Jump to Unselected Figure
               </button>
             </div>
+            <QualityChecksPanel
+              flags={qualityFlags}
+              thresholds={qualityThresholds}
+              analyzedCount={figureAnalyses.size}
+              totalCount={images.length}
+              onThresholdsChange={updateQualityThresholds}
+              onShowIssue={(issue) => setTimelineFilter({ ...DEFAULT_TIMELINE_FILTER, check: issue })}
+            />
+            <MetadataPanel
+              file={imageFiles.get(images[currentImageIndex])}
+              analysis={figureAnalyses.get(images[currentImageIndex])}
+              metadata={figureMetadata.get(images[currentImageIndex])}
+              columns={metadataColumns}
+              onColumnsChange={updateMetadataColumns}
+            />
+            <HistoryPanel history={history} onUndo={undo} onRedo={redo} />
           </div>
         )}
       </div>
+
+      {showExport && (
+        <ExportDialog
+          images={images}
+          imageChoices={labeledChoices}
+          attributes={attributes}
+          sidecars={sidecars}
+          reviewer={reviewerName}
+          canSort={directoryHandle !== null}
+          onReviewerChange={updateReviewerName}
+          onExport={exportResults}
+          onSort={sortIntoFolders}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showStatistics && (
+        <StatisticsPanel
+          directory={directory}
+          images={images}
+          imageChoices={labeledChoices}
+          attributes={attributes}
+          progress={sessionProgress}
+          onExport={exportSummary}
+          onClose={() => setShowStatistics(false)}
+        />
+      )}
+
+      {showPasses && (
+        <ReviewPassesPanel
+          passes={passes}
+          images={images}
+          imageChoices={imageChoices}
+          attributes={attributes}
+          qualityFlags={qualityFlags}
+          onStart={startReviewPass}
+          onFinish={finishReviewPass}
+          onSelectImage={(image) => {
+            const index = imageIndexes.get(image);
+            if (index === undefined) return;
+            setCurrentImageIndex(index);
+            setAllFiguresChecked(false);
+            setShowPasses(false);
+            scrollTimelineTo(index);
+          }}
+          onClose={() => setShowPasses(false)}
+        />
+      )}
+
+      {pendingLoad && (
+        <LoadCsvDialog
+          fileName={pendingLoad.fileName}
+          attributes={attributes}
+          preview={previewLoad(imageChoices, pendingLoad.choices, images, attributes)}
+          rowErrors={pendingLoad.errors}
+          regionCount={pendingLoad.regions?.size ?? null}
+          currentCount={imageChoices.size}
+          summary={pendingLoad.summary}
+          onApply={applyPendingLoad}
+          onClose={() => setPendingLoad(null)}
+        />
+      )}
+
+      {showReviewers && (
+        <ReviewersPanel
+          reviews={allReviews}
+          images={images}
+          attributes={attributes}
+          disagreementCount={disagreements.size}
+          onImport={importReviewerFiles}
+          onRemove={(reviewer) => setReviews(prev => prev.filter(review => review.reviewer !== reviewer))}
+          onExport={exportMergedCsv}
+          onShowDisagreements={() => {
+            setTimelineFilter({ ...DEFAULT_TIMELINE_FILTER, disagreement: true });
+            setShowReviewers(false);
+          }}
+          onClose={() => setShowReviewers(false)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          state={profileState}
+          shortcutKeys={plainShortcutKeys(shortcuts)}
+          onSave={saveSettings}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
+      {showShortcuts && (
+        <ShortcutsOverlay
+          bindings={shortcuts}
+          attributes={attributes}
+          onChange={updateShortcuts}
+          onClose={() => setShowShortcuts(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import FigureImage from '@/components/FigureImage';
+import { computeDifference, formatDifference, type CompareMode } from '@/lib/comparison';
+import { useObjectUrl } from '@/lib/objectUrls';
+
+interface CompareViewProps {
+  mode: Exclude<CompareMode, 'off'>;
+  itemKey: string;
+  file: File | undefined;
+  referenceKey: string;
+  referenceFile: File | undefined;
+  opacity: number;
+}
+
+const imageClass = 'block max-w-full object-contain';
+
+const DifferenceHeatmap = ({ itemKey, file, referenceKey, referenceFile }: Omit<CompareViewProps, 'mode' | 'opacity'>) => {
+  const [heatmap, setHeatmap] = useState<Blob | null>(null);
+  const [score, setScore] = useState<number | null>(null);
+  const [failed, setFailed] = useState(false);
+  const url = useObjectUrl(heatmap);
+
+  useEffect(() => {
+    if (!file || !referenceFile) return;
+    let cancelled = false;
+    setHeatmap(null);
+    setFailed(false);
+
+    computeDifference({ key: itemKey, file }, { key: referenceKey, file: referenceFile }, { withHeatmap: true })
+      .then(result => {
+        if (cancelled) return;
+        setHeatmap(result.heatmap);
+        setScore(result.score);
+      })
+      .catch(error => {
+        console.error(`Failed to compare ${itemKey} with ${referenceKey}:`, error);
+        if (!cancelled) setFailed(true);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemKey, file, referenceKey, referenceFile]);
+
+  if (failed) {
+    return <p className="text-sm text-red-400">Cannot compute the difference for this pair</p>;
+  }
+  if (!url) {
+    return <div className="w-full h-64 bg-gray-100 rounded animate-pulse" />;
+  }
+  return (
+    <div>
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={url} alt={`Difference of ${itemKey}`} className={imageClass} style={{ maxHeight: '70vh' }} />
+      {score !== null && <p className="text-xs text-gray-500 mt-1">Difference at this resolution: {formatDifference(score)}</p>}
+    </div>
+  );
+};
+
+// Current figure against its reference: two panes, a blended overlay, or a difference heatmap
+export default function CompareView({ mode, itemKey, file, referenceKey, referenceFile, opacity }: CompareViewProps) {
+  if (mode === 'side-by-side') {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        {[
+          { caption: 'Current', key: itemKey, figure: file },
+          { caption: `Reference: ${referenceKey}`, key: referenceKey, figure: referenceFile },
+        ].map(pane => (
+          <figure key={pane.caption}>
+            <FigureImage itemKey={pane.key} file={pane.figure} className={imageClass} style={{ maxHeight: '70vh' }} />
+            <figcaption className="text-xs text-gray-500 mt-1 truncate" title={pane.caption}>{pane.caption}</figcaption>
+          </figure>
+        ))}
+      </div>
+    );
+  }
+
+  if (mode === 'overlay') {
+    return (
+      <div className="relative inline-block">
+        <FigureImage itemKey={itemKey} file={file} className={imageClass} style={{ maxHeight: '70vh' }} />
+        {/* The reference is stretched over the current figure so differing sizes still line up */}
+        <FigureImage
+          itemKey={referenceKey}
+          file={referenceFile}
+          className="absolute inset-0 w-full h-full object-fill"
+          style={{ opacity }}
+        />
+      </div>
+    );
+  }
+
+  return <DifferenceHeatmap itemKey={itemKey} file={file} referenceKey={referenceKey} referenceFile={referenceFile} />;
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useState } from 'react';
+import type { Attribute, ImageEntry } from '@/lib/attributes';
+import { EXPORT_FORMAT_LABELS, type ExportFormat } from '@/lib/exportFormats';
+import type { SidecarMap } from '@/lib/sidecars';
+import { planSort, type SortMode, type SortPlan, type SortResult } from '@/lib/sortIntoFolders';
+
+interface ExportDialogProps {
+  images: string[];
+  imageChoices: Map<string, ImageEntry>;
+  attributes: Attribute[];
+  sidecars: SidecarMap;
+  reviewer: string;
+  // Sorting into folders needs a directory handle with write access
+  canSort: boolean;
+  onReviewerChange: (reviewer: string) => void;
+  onExport: (format: ExportFormat) => void;
+  onSort: (plan: SortPlan, mode: SortMode) => Promise<SortResult>;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 100;
+const sectionClass = 'p-3 border border-gray-300 rounded-lg mb-4';
+const buttonClass = 'px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50 disabled:text-gray-300 disabled:cursor-not-allowed';
+
+export default function ExportDialog({
+  images,
+  imageChoices,
+  attributes,
+  sidecars,
+  reviewer,
+  canSort,
+  onReviewerChange,
+  onExport,
+  onSort,
+  onClose,
+}: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [attributeName, setAttributeName] = useState(attributes[0]?.name ?? '');
+  const [excludedValues, setExcludedValues] = useState<string[]>([]);
+  const [mode, setMode] = useState<SortMode>('copy');
+  const [plan, setPlan] = useState<SortPlan | null>(null);
+  const [result, setResult] = useState<SortResult | null>(null);
+  const [running, setRunning] = useState(false);
+  const [runError, setRunError] = useState('');
+
+  const attribute = attributes.find(a => a.name === attributeName) ?? attributes[0];
+
+  const preview = () => {
+    const values = attribute.labels.map(label => label.value).filter(value => !excludedValues.includes(value));
+    setPlan(planSort(images, imageChoices, attribute.name, values, sidecars));
+    setResult(null);
+    setRunError('');
+  };
+
+  const run = async () => {
+    if (!plan) return;
+    if (mode === 'move' && !confirm(`Move ${plan.operations.length} file(s) into label folders?`)) return;
+    setRunning(true);
+    setRunError('');
+    try {
+      setResult(await onSort(plan, mode));
+      setPlan(null);
+    } catch (error) {
+      console.error('Failed to sort into folders:', error);
+      setRunError(`Sorting stopped: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-6 w-[40rem] max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-gray-800">Export</h2>
+
+        <div className={sectionClass}>
+          <h3 className="text-sm font-semibold mb-2">Results file</h3>
+          <div className="space-y-1 mb-3">
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <input type="radio" name="export-format" checked={format === option} onChange={() => setFormat(option)} />
+                {EXPORT_FORMAT_LABELS[option]}
+              </label>
+            ))}
+          </div>
+          {format !== 'csv' && (
+            <label className="block text-sm mb-3">
+              <span className="block text-xs font-medium text-gray-600 mb-1">Reviewer</span>
+              <input
+                type="text"
+                value={reviewer}
+                onChange={(e) => onReviewerChange(e.target.value)}
+                placeholder="Your name"
+                className="w-full px-3 py-2 border border-gray-300 rounded"
+              />
+            </label>
+          )}
+          <button
+            onClick={() => onExport(format)}
+            disabled={imageChoices.size === 0}
+            className="px-4 py-2 bg-green-500 text-white rounded disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Export {EXPORT_FORMAT_LABELS[format].split(' ')[0]}
+          </button>
+        </div>
+
+        <div className={sectionClass}>
+          <h3 className="text-sm font-semibold mb-2">Sort into folders</h3>
+          {!canSort ? (
+            <p className="text-sm text-gray-500">Select the directory with the directory picker to copy or move files.</p>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600 mb-2">
+                Labeled files are copied or moved into a subfolder named after their value, keeping their relative path.
+              </p>
+              {attributes.length > 1 && (
+                <label className="flex items-center gap-2 text-sm mb-2">
+                  Attribute
+                  <select
+                    value={attribute.name}
+                    onChange={(e) => {
+                      setAttributeName(e.target.value);
+                      setExcludedValues([]);
+                      setPlan(null);
+                    }}
+                    className="px-2 py-1 border border-gray-300 rounded"
+                  >
+                    {attributes.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+                  </select>
+                </label>
+              )}
+              <div className="flex flex-wrap gap-3 text-sm mb-2">
+                {attribute.labels.map(label => (
+                  <label key={label.value} className="flex items-center gap-1">
+                    <input
+                      type="checkbox"
+                      checked={!excludedValues.includes(label.value)}
+                      onChange={(e) => {
+                        setExcludedValues(prev => (e.target.checked ? prev.filter(v => v !== label.value) : [...prev, label.value]));
+                        setPlan(null);
+                      }}
+                    />
+                    {label.value}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-4 text-sm mb-3">
+                {(['copy', 'move'] as const).map(option => (
+                  <label key={option} className="flex items-center gap-1">
+                    <input type="radio" name="sort-mode" checked={mode === option} onChange={() => setMode(option)} />
+                    {option === 'copy' ? 'Copy' : 'Move'}
+                  </label>
+                ))}
+              </div>
+              {mode === 'copy' && (
+                <p className="text-xs text-gray-500 mb-3">
+                  Copies are written to a folder you choose outside this directory.
+                </p>
+              )}
+              <div className="flex gap-2">
+                <button onClick={preview} className={buttonClass}>Preview (dry run)</button>
+                <button onClick={run} disabled={!plan || plan.operations.length === 0 || running} className={buttonClass}>
+                  {running ? 'Working…' : `${mode === 'copy' ? 'Copy' : 'Move'} ${plan?.operations.length ?? 0} file(s)`}
+                </button>
+              </div>
+
+              {plan && (
+                <div className="mt-3 text-xs">
+                  <ul className="max-h-48 overflow-y-auto font-mono">
+                    {plan.operations.slice(0, PREVIEW_LIMIT).map(operation => (
+                      <li key={operation.source}>{operation.source} → {operation.target}</li>
+                    ))}
+                  </ul>
+                  {plan.operations.length > PREVIEW_LIMIT && <p className="text-gray-500">…and {plan.operations.length - PREVIEW_LIMIT} more</p>}
+                  {plan.operations.length === 0 && <p className="text-gray-500">Nothing to {mode}</p>}
+                  {plan.skipped.length > 0 && (
+                    <ul className="mt-2 text-yellow-700">
+                      {plan.skipped.map(skip => <li key={skip.source}>Skipped {skip.source}: {skip.reason}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {runError && <p className="mt-3 text-sm text-red-500">{runError}</p>}
+
+              {result && (
+                <div className="mt-3 text-sm">
+                  <p>{result.done.length} file(s) {mode === 'copy' ? 'copied' : 'moved'}.</p>
+                  {result.failed.length > 0 && (
+                    <ul className="text-xs text-red-500">
+                      {result.failed.map(failure => <li key={failure.source}>{failure.source}: {failure.reason}</li>)}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button onClick={onClose} className={buttonClass}>Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { renderFigure } from '@/lib/formats';
+import { useObjectUrl } from '@/lib/objectUrls';
+import { getThumbnail } from '@/lib/thumbnails';
+
+type FigureImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & {
+  itemKey: string;
+  file: File | undefined;
+  // Show a cached, downscaled copy instead of the full render
+  thumbnail?: boolean;
+};
+
+// Renders any supported figure format through the format layer; object URLs are shared and released via objectUrls
+export default function FigureImage({ itemKey, file, thumbnail = false, alt, ...imgProps }: FigureImageProps) {
+  const [blob, setBlob] = useState<Blob | null>(null);
+  const [failed, setFailed] = useState(false);
+  const url = useObjectUrl(blob);
+
+  useEffect(() => {
+    if (!file) {
+      setBlob(null);
+      return;
+    }
+
+    let cancelled = false;
+    setBlob(null);
+    setFailed(false);
+
+    (thumbnail ? getThumbnail(itemKey, file) : renderFigure(itemKey, file))
+      .then(rendered => {
+        if (!cancelled) {
+          setBlob(rendered);
+        }
+      })
+      .catch(error => {
+        console.error(`Failed to render ${itemKey}:`, error);
+        if (!cancelled) {
+          setBlob(null);
+          setFailed(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [itemKey, file, thumbnail]);
+
+  if (failed) {
+    return (
+      <div className="flex items-center justify-center w-full h-full text-xs text-red-400 bg-gray-100 rounded p-2">
+        Cannot display
+      </div>
+    );
+  }
+
+  if (!url) {
+    return <div className="w-full h-full min-h-12 bg-gray-100 rounded animate-pulse" />;
+  }
+
+  // eslint-disable-next-line @next/next/no-img-element
+  return <img src={url} alt={alt ?? itemKey} {...imgProps} />;
+}
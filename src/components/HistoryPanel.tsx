@@ -0,0 +1,62 @@
+'use client';
+
+import type { HistoryState } from '@/lib/history';
+
+interface HistoryPanelProps {
+  history: HistoryState;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const VISIBLE_ENTRIES = 15;
+
+export default function HistoryPanel({ history, onUndo, onRedo }: HistoryPanelProps) {
+  const recent = history.past.slice(-VISIBLE_ENTRIES).reverse();
+  const upcoming = history.future.slice(0, 3).reverse();
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold">History</h3>
+        <div className="flex gap-1">
+          <button
+            onClick={onUndo}
+            disabled={history.past.length === 0}
+            title="Undo (Ctrl+Z)"
+            className="text-xs px-2 py-1 border border-gray-300 rounded hover:bg-white disabled:text-gray-300 disabled:cursor-not-allowed"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={history.future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+            className="text-xs px-2 py-1 border border-gray-300 rounded hover:bg-white disabled:text-gray-300 disabled:cursor-not-allowed"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+      {recent.length === 0 && upcoming.length === 0 ? (
+        <p className="text-xs text-gray-400">No actions yet</p>
+      ) : (
+        <ul className="text-xs space-y-1 max-h-40 overflow-y-auto">
+          {upcoming.map(entry => (
+            <li key={entry.id} className="text-gray-300 line-through truncate" title={entry.description}>
+              {entry.description}
+            </li>
+          ))}
+          {recent.map((entry, index) => (
+            <li
+              key={entry.id}
+              className={`truncate ${index === 0 ? 'font-medium text-gray-800' : 'text-gray-500'}`}
+              title={`${entry.description} (${new Date(entry.timestamp).toLocaleTimeString()})`}
+            >
+              {entry.description}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
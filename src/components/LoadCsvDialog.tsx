@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import type { Attribute, ImageEntry } from '@/lib/attributes';
+import type { CsvParseError } from '@/lib/csv';
+import { LOAD_MODE_LABELS, type LoadMode, type LoadPreview, type LoadSummary } from '@/lib/resultsMerge';
+
+interface LoadCsvDialogProps {
+  fileName: string;
+  attributes: Attribute[];
+  preview: LoadPreview;
+  rowErrors: CsvParseError[];
+  // Images with regions in the accompanying .regions.json, null without one
+  regionCount: number | null;
+  currentCount: number;
+  // Set once the file has been applied
+  summary: LoadSummary | null;
+  onApply: (mode: LoadMode, keepOrphans: boolean) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const describeEntry = (entry: ImageEntry, attributes: Attribute[]) =>
+  [
+    ...attributes.filter(attribute => entry.values[attribute.name]).map(attribute => `${attribute.name}: ${entry.values[attribute.name]}`),
+    ...(entry.comment ? [`💬 ${entry.comment}`] : []),
+  ].join(', ');
+
+export default function LoadCsvDialog({
+  fileName,
+  attributes,
+  preview,
+  rowErrors,
+  regionCount,
+  currentCount,
+  summary,
+  onApply,
+  onClose,
+}: LoadCsvDialogProps) {
+  const [mode, setMode] = useState<LoadMode>(currentCount > 0 ? 'keep-current' : 'replace');
+  const [keepOrphans, setKeepOrphans] = useState(false);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-6 w-[40rem] max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-gray-800">Load {fileName}</h2>
+
+        {summary ? (
+          <ul className="text-sm space-y-1 mb-4">
+            <li>{LOAD_MODE_LABELS[summary.mode]}</li>
+            <li>{summary.added} new label(s) added</li>
+            {summary.overwritten > 0 && <li>{summary.overwritten} conflicting label(s) taken from the file</li>}
+            {summary.kept > 0 && <li>{summary.kept} conflicting label(s) kept from the session</li>}
+            {summary.removed > 0 && <li>{summary.removed} session label(s) without a row in the file removed</li>}
+            {summary.orphansKept > 0 && <li>{summary.orphansKept} orphaned row(s) kept</li>}
+            {summary.orphansDropped > 0 && <li>{summary.orphansDropped} orphaned row(s) skipped</li>}
+            {rowErrors.length > 0 && <li className="text-red-500">{rowErrors.length} row(s) could not be read</li>}
+            <li className="font-semibold">{summary.total} image(s) labeled now</li>
+          </ul>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-3">
+              {preview.added.length} new, {preview.conflicts.length} conflicting and {preview.orphans.length} orphaned row(s).
+              {' '}The session currently has {currentCount} labeled image(s).
+              {regionCount !== null && ` Regions for ${regionCount} image(s) are combined the same way.`}
+            </p>
+
+            <div className="space-y-1 mb-3">
+              {(Object.keys(LOAD_MODE_LABELS) as LoadMode[]).map(option => (
+                <label key={option} className="flex items-center gap-2 text-sm">
+                  <input type="radio" name="load-mode" checked={mode === option} onChange={() => setMode(option)} />
+                  {LOAD_MODE_LABELS[option]}
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={keepOrphans} onChange={(e) => setKeepOrphans(e.target.checked)} />
+                Keep rows for images not in this directory
+              </label>
+            </div>
+
+            {preview.conflicts.length > 0 && (
+              <details className="text-sm mb-2" open>
+                <summary className="cursor-pointer font-medium">Conflicts ({preview.conflicts.length})</summary>
+                <table className="w-full mt-1 text-xs">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="pr-2">Image</th>
+                      <th className="pr-2">Session</th>
+                      <th>File</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.conflicts.slice(0, PREVIEW_LIMIT).map(conflict => (
+                      <tr key={conflict.image} className="align-top">
+                        <td className="pr-2 break-all">{conflict.image}</td>
+                        <td className={`pr-2 ${mode === 'keep-current' ? 'font-semibold' : 'text-gray-400'}`}>
+                          {describeEntry(conflict.current, attributes)}
+                        </td>
+                        <td className={mode === 'keep-current' ? 'text-gray-400' : 'font-semibold'}>
+                          {describeEntry(conflict.incoming, attributes)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {preview.conflicts.length > PREVIEW_LIMIT && <p className="text-xs text-gray-500">…and {preview.conflicts.length - PREVIEW_LIMIT} more</p>}
+              </details>
+            )}
+
+            {preview.orphans.length > 0 && (
+              <details className="text-sm mb-2">
+                <summary className="cursor-pointer font-medium">Orphaned rows ({preview.orphans.length})</summary>
+                <ul className="ml-4 list-disc text-xs text-gray-600">
+                  {preview.orphans.slice(0, PREVIEW_LIMIT).map(image => <li key={image}>{image}</li>)}
+                </ul>
+                {preview.orphans.length > PREVIEW_LIMIT && <p className="text-xs text-gray-500">…and {preview.orphans.length - PREVIEW_LIMIT} more</p>}
+              </details>
+            )}
+
+            {rowErrors.length > 0 && (
+              <details className="text-sm mb-2">
+                <summary className="cursor-pointer font-medium text-red-500">Unreadable rows ({rowErrors.length})</summary>
+                <ul className="ml-4 list-disc text-xs text-gray-600">
+                  {rowErrors.slice(0, PREVIEW_LIMIT).map((rowError, index) => <li key={index}>line {rowError.line}: {rowError.message}</li>)}
+                </ul>
+              </details>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end space-x-2 mt-6">
+          {summary ? (
+            <button onClick={onClose} className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600">Close</button>
+          ) : (
+            <>
+              <button onClick={onClose} className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50">
+                Cancel
+              </button>
+              <button onClick={() => onApply(mode, keepOrphans)} className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600">
+                Load
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+
+import { metadataFieldId, type FigureMetadata } from '@/lib/imageMetadata';
+import type { FigureAnalysis } from '@/lib/qualityChecks';
+
+interface MetadataPanelProps {
+  file: File | undefined;
+  analysis: FigureAnalysis | undefined;
+  // Undefined while the file is still being read
+  metadata: FigureMetadata | undefined;
+  columns: string[];
+  onColumnsChange: (columns: string[]) => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const formatDimensions = (analysis: FigureAnalysis | undefined) => {
+  if (!analysis) return '…';
+  if (!analysis.ok) return analysis.detail;
+  return `${analysis.width} × ${analysis.height} px${analysis.vector ? ' (vector, as rendered)' : ''}`;
+};
+
+// File properties and embedded metadata (PNG text chunks, EXIF/XMP, SVG <metadata>) of the current figure
+export default function MetadataPanel({ file, analysis, metadata, columns, onColumnsChange }: MetadataPanelProps) {
+  const dpi = metadata?.dpi ?? (analysis?.ok ? analysis.dpi : null);
+
+  const toggleColumn = (fieldId: string, checked: boolean) => {
+    onColumnsChange(checked ? [...columns, fieldId] : columns.filter(column => column !== fieldId));
+  };
+
+  return (
+    <details className="mt-4">
+      <summary className="text-sm font-semibold cursor-pointer">
+        Metadata
+        {columns.length > 0 && <span className="font-normal text-gray-500"> ({columns.length} exported)</span>}
+      </summary>
+      {file && (
+        <dl className="text-xs mt-2 grid grid-cols-[auto_1fr] gap-x-2 gap-y-1">
+          <dt className="text-gray-500">Dimensions</dt>
+          <dd>{formatDimensions(analysis)}</dd>
+          <dt className="text-gray-500">DPI</dt>
+          <dd>{dpi ? Math.round(dpi) : 'Not recorded'}</dd>
+          <dt className="text-gray-500">Size</dt>
+          <dd>{formatBytes(file.size)}</dd>
+          <dt className="text-gray-500">Modified</dt>
+          <dd>{new Date(file.lastModified).toLocaleString()}</dd>
+        </dl>
+      )}
+      {!metadata ? (
+        <p className="text-xs text-gray-500 mt-2">Reading…</p>
+      ) : metadata.entries.length === 0 ? (
+        <p className="text-xs text-gray-500 mt-2">No embedded metadata</p>
+      ) : (
+        <ul className="text-xs mt-2 space-y-1">
+          {metadata.entries.map((entry, index) => {
+            const fieldId = metadataFieldId(entry);
+            return (
+              <li key={index} className="border-t border-gray-100 pt-1">
+                <label className="flex items-center gap-1 font-medium text-gray-700" title="Export as CSV column">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(fieldId)}
+                    onChange={(e) => toggleColumn(fieldId, e.target.checked)}
+                  />
+                  <span className="text-gray-400">{entry.group}</span>
+                  <span className="break-all">{entry.key}</span>
+                </label>
+                <p className="whitespace-pre-wrap break-all max-h-32 overflow-y-auto text-gray-600">{entry.value}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {columns.length > 0 && (
+        <div className="mt-2 text-xs text-gray-500">
+          CSV columns:
+          {columns.map(column => (
+            <span key={column} className="inline-flex items-center ml-1 px-1 bg-gray-100 rounded">
+              {column}
+              <button onClick={() => toggleColumn(column, false)} className="ml-1 hover:text-gray-700" title="Remove column">✕</button>
+            </span>
+          ))}
+        </div>
+      )}
+    </details>
+  );
+}
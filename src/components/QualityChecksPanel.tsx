@@ -0,0 +1,89 @@
+'use client';
+
+import {
+  DEFAULT_QUALITY_THRESHOLDS,
+  QUALITY_ISSUE_LABELS,
+  type QualityFlag,
+  type QualityIssue,
+  type QualityThresholds,
+} from '@/lib/qualityChecks';
+
+interface QualityChecksPanelProps {
+  flags: Map<string, QualityFlag[]>;
+  thresholds: QualityThresholds;
+  analyzedCount: number;
+  totalCount: number;
+  onThresholdsChange: (thresholds: QualityThresholds) => void;
+  onShowIssue: (issue: QualityIssue) => void;
+}
+
+const THRESHOLD_FIELDS: { name: keyof QualityThresholds; label: string; step: number }[] = [
+  { name: 'minPixels', label: 'Min. shorter side (px)', step: 50 },
+  { name: 'minDpi', label: 'Min. DPI', step: 50 },
+  { name: 'blankRatio', label: 'Blank if background ≥', step: 0.001 },
+  { name: 'maxAspectRatio', label: 'Max. aspect ratio', step: 0.5 },
+  { name: 'duplicateDistance', label: 'Duplicate hash distance ≤', step: 1 },
+];
+
+export default function QualityChecksPanel({
+  flags,
+  thresholds,
+  analyzedCount,
+  totalCount,
+  onThresholdsChange,
+  onShowIssue,
+}: QualityChecksPanelProps) {
+  const counts = new Map<QualityIssue, number>();
+  flags.forEach(list => new Set(list.map(flag => flag.issue)).forEach(issue => counts.set(issue, (counts.get(issue) ?? 0) + 1)));
+
+  return (
+    <details className="mt-4">
+      <summary className="text-sm font-semibold cursor-pointer">
+        Quality checks
+        <span className="font-normal text-gray-500">
+          {' '}({flags.size} flagged{analyzedCount < totalCount && `, ${analyzedCount}/${totalCount} checked`})
+        </span>
+      </summary>
+      <ul className="text-xs mt-2 space-y-1">
+        {(Object.keys(QUALITY_ISSUE_LABELS) as QualityIssue[]).map(issue => (
+          <li key={issue} className="flex justify-between">
+            <button
+              onClick={() => onShowIssue(issue)}
+              disabled={!counts.get(issue)}
+              className="underline disabled:no-underline disabled:text-gray-400 text-left"
+            >
+              {QUALITY_ISSUE_LABELS[issue]}
+            </button>
+            <span className="text-gray-500">{counts.get(issue) ?? 0}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-3 space-y-1">
+        {THRESHOLD_FIELDS.map(field => (
+          <label key={field.name} className="flex items-center justify-between gap-2 text-xs text-gray-600">
+            {field.label}
+            <input
+              type="number"
+              min={0}
+              step={field.step}
+              value={thresholds[field.name]}
+              onChange={(e) => {
+                const value = Number(e.target.value);
+                if (Number.isFinite(value) && value >= 0) {
+                  onThresholdsChange({ ...thresholds, [field.name]: value });
+                }
+              }}
+              className="w-20 px-1 py-0.5 border border-gray-300 rounded text-right"
+            />
+          </label>
+        ))}
+        <button
+          onClick={() => onThresholdsChange(DEFAULT_QUALITY_THRESHOLDS)}
+          className="text-xs underline text-gray-500 hover:text-gray-700"
+        >
+          Reset thresholds
+        </button>
+      </div>
+    </details>
+  );
+}
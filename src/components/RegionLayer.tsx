@@ -0,0 +1,139 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { createRegionId, type Region } from '@/lib/regions';
+
+export type RegionTool = 'none' | 'box' | 'pin';
+
+interface RegionLayerProps {
+  regions: Region[];
+  tool: RegionTool;
+  selectedId: string | null;
+  onAdd: (region: Region) => void;
+  onSelect: (id: string | null) => void;
+  // Scale the layer is displayed at; markers are counter-scaled to keep a constant screen size
+  scale?: number;
+}
+
+// Boxes smaller than this (relative to the image) are treated as accidental clicks
+const MIN_BOX_SIZE = 0.005;
+
+// Overlay positioned over the figure; coordinates are relative so it follows any zoom transform
+export default function RegionLayer({ regions, tool, selectedId, onAdd, onSelect, scale = 1 }: RegionLayerProps) {
+  const layerRef = useRef<HTMLDivElement>(null);
+  const [draft, setDraft] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
+
+  const toRelative = (event: React.PointerEvent) => {
+    const rect = layerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1),
+    };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    // Ignore presses on existing regions so they can still be selected
+    if (tool === 'none' || event.button !== 0 || event.target !== event.currentTarget) return;
+    event.preventDefault();
+    const { x, y } = toRelative(event);
+
+    if (tool === 'pin') {
+      const note = prompt('Note for this pin') ?? '';
+      onAdd({ id: createRegionId(), kind: 'pin', x, y, note });
+      return;
+    }
+
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDraft({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!draft) return;
+    const { x, y } = toRelative(event);
+    setDraft({ ...draft, x1: x, y1: y });
+  };
+
+  const handlePointerUp = () => {
+    if (!draft) return;
+    const box = {
+      x: Math.min(draft.x0, draft.x1),
+      y: Math.min(draft.y0, draft.y1),
+      width: Math.abs(draft.x1 - draft.x0),
+      height: Math.abs(draft.y1 - draft.y0),
+    };
+    setDraft(null);
+    if (box.width < MIN_BOX_SIZE || box.height < MIN_BOX_SIZE) return;
+
+    const note = prompt('Note for this box') ?? '';
+    onAdd({ id: createRegionId(), kind: 'box', ...box, note });
+  };
+
+  const percent = (value: number) => `${value * 100}%`;
+
+  return (
+    <div
+      ref={layerRef}
+      className={`absolute inset-0 ${tool === 'none' ? 'pointer-events-none' : 'cursor-crosshair'}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+    >
+      {regions.map((region, index) => {
+        const selected = region.id === selectedId;
+        const onClick = (event: React.MouseEvent) => {
+          event.stopPropagation();
+          onSelect(selected ? null : region.id);
+        };
+
+        return region.kind === 'box' ? (
+          <div
+            key={region.id}
+            title={region.note}
+            onClick={onClick}
+            className={`absolute border-2 pointer-events-auto cursor-pointer ${
+              selected ? 'border-yellow-400 bg-yellow-200/20' : 'border-red-500 bg-red-200/10'
+            }`}
+            style={{
+              left: percent(region.x),
+              top: percent(region.y),
+              width: percent(region.width),
+              height: percent(region.height),
+              borderWidth: 2 / scale,
+            }}
+          >
+            <span
+              className="absolute bottom-full left-0 text-xs bg-red-500 text-white px-1 rounded"
+              style={{ transform: `scale(${1 / scale})`, transformOrigin: 'bottom left' }}
+            >
+              {index + 1}
+            </span>
+          </div>
+        ) : (
+          <div
+            key={region.id}
+            title={region.note}
+            onClick={onClick}
+            className={`absolute w-5 h-5 rounded-full border-2 border-white text-[10px] text-white flex items-center justify-center pointer-events-auto cursor-pointer ${
+              selected ? 'bg-yellow-500' : 'bg-red-500'
+            }`}
+            style={{ left: percent(region.x), top: percent(region.y), transform: `translate(-50%, -50%) scale(${1 / scale})` }}
+          >
+            {index + 1}
+          </div>
+        );
+      })}
+      {draft && (
+        <div
+          className="absolute border-2 border-dashed border-red-500"
+          style={{
+            borderWidth: 2 / scale,
+            left: percent(Math.min(draft.x0, draft.x1)),
+            top: percent(Math.min(draft.y0, draft.y1)),
+            width: percent(Math.abs(draft.x1 - draft.x0)),
+            height: percent(Math.abs(draft.y1 - draft.y0)),
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { isEntryComplete, type Attribute, type ImageEntry } from '@/lib/attributes';
+import type { QualityFlag } from '@/lib/qualityChecks';
+import {
+  activePass,
+  describeScope,
+  diffPass,
+  passResults,
+  selectPassImages,
+  type PassScope,
+  type ReviewPass,
+} from '@/lib/reviewPasses';
+import { ANY_CHECK, UNSELECTED, labelOptionValue, parseLabelOption } from '@/lib/timelineView';
+
+interface ReviewPassesPanelProps {
+  passes: ReviewPass[];
+  images: string[];
+  imageChoices: Map<string, ImageEntry>;
+  attributes: Attribute[];
+  qualityFlags: Map<string, QualityFlag[]>;
+  onStart: (name: string, scope: PassScope) => void;
+  onFinish: () => void;
+  onSelectImage: (image: string) => void;
+  onClose: () => void;
+}
+
+const DIFF_LIMIT = 100;
+
+const inputClass = 'px-2 py-1 border border-gray-300 rounded';
+
+const formatValues = (attributes: Attribute[], entry: ImageEntry | undefined) =>
+  attributes.map(attribute => entry?.values[attribute.name] || '—').join(' / ');
+
+// Start and finish named review passes, and compare what each pass changed
+export default function ReviewPassesPanel({
+  passes,
+  images,
+  imageChoices,
+  attributes,
+  qualityFlags,
+  onStart,
+  onFinish,
+  onSelectImage,
+  onClose,
+}: ReviewPassesPanelProps) {
+  const current = activePass(passes);
+  const [name, setName] = useState(`Pass ${passes.length + 2}`);
+  const [scope, setScope] = useState<PassScope>(() =>
+    attributes[0]?.labels[1] ? { attribute: attributes[0].name, value: attributes[0].labels[1].value } : UNSELECTED
+  );
+  const [viewedIndex, setViewedIndex] = useState(passes.length - 1);
+
+  const scopedCount = selectPassImages(images, scope, { imageChoices, attributes, qualityFlags }).length;
+  const nameTaken = passes.some(pass => pass.name === name.trim());
+
+  const results = useMemo(() => passResults(passes, imageChoices), [passes, imageChoices]);
+  const viewed = passes[viewedIndex];
+  const changes = useMemo(
+    () => (viewed ? diffPass(viewed, results[viewedIndex], attributes) : []),
+    [viewed, results, viewedIndex, attributes]
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-6 w-[40rem] max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-gray-800">Review Passes</h2>
+
+        {current ? (
+          <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded text-sm">
+            <p>
+              <span className="font-semibold">{current.name}</span> ({describeScope(current.scope)}) in progress:{' '}
+              {current.images.filter(image => isEntryComplete(attributes, imageChoices.get(image))).length} of {current.images.length} re-checked
+            </p>
+            <button onClick={onFinish} className="mt-2 px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600">
+              Finish pass
+            </button>
+          </div>
+        ) : (
+          <div className="mb-4 space-y-2 text-sm">
+            <p className="text-gray-600">
+              Re-check a subset of figures. Their labels are cleared for the pass; the earlier values are kept and exported
+              alongside the new ones. Until a figure is re-checked, statistics, reviewer agreement, sorting and exports use
+              its earlier labels, and finishing the pass restores them.
+            </p>
+            <div className="flex items-center gap-2">
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Pass name"
+                className={`flex-1 ${inputClass}`}
+              />
+              <select
+                value={typeof scope === 'string' ? scope : labelOptionValue(scope)}
+                onChange={(e) => {
+                  const { value } = e.target;
+                  setScope(value === UNSELECTED || value === ANY_CHECK ? value : parseLabelOption(value));
+                }}
+                className={`flex-1 ${inputClass}`}
+              >
+                {attributes.map(attribute => attribute.labels.map(label => (
+                  <option key={`${attribute.name}-${label.value}`} value={labelOptionValue({ attribute: attribute.name, value: label.value })}>
+                    {attributes.length > 1 ? `${attribute.name}: ` : ''}{label.value}
+                  </option>
+                )))}
+                <option value={UNSELECTED}>Unlabeled</option>
+                <option value={ANY_CHECK}>Flagged by quality checks</option>
+              </select>
+              <button
+                onClick={() => onStart(name.trim(), scope)}
+                disabled={scopedCount === 0 || !name.trim() || nameTaken}
+                className="px-3 py-1 bg-blue-500 text-white rounded hover:bg-blue-600 disabled:bg-gray-300"
+              >
+                Start ({scopedCount})
+              </button>
+            </div>
+            {nameTaken && <p className="text-red-500">A pass with this name already exists</p>}
+          </div>
+        )}
+
+        {passes.length > 0 && (
+          <div>
+            <div className="flex items-center gap-2 mb-2 text-sm">
+              <span className="text-gray-600">Changes in</span>
+              <select value={viewedIndex} onChange={(e) => setViewedIndex(Number(e.target.value))} className={inputClass}>
+                {passes.map((pass, index) => (
+                  <option key={pass.name} value={index}>
+                    {pass.name} ({describeScope(pass.scope)}, {pass.images.length} figures)
+                  </option>
+                ))}
+              </select>
+            </div>
+            {changes.length === 0 ? (
+              <p className="text-sm text-gray-500">No labels changed in this pass</p>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600 mb-1">
+                  {changes.length} of {viewed.images.length} figures changed
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-medium">Image</th>
+                      <th className="font-medium">Before</th>
+                      <th className="font-medium">After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.slice(0, DIFF_LIMIT).map(change => (
+                      <tr key={change.image} className="border-t border-gray-100">
+                        <td className="py-1 break-all">
+                          <button onClick={() => onSelectImage(change.image)} className="underline text-left">{change.image}</button>
+                        </td>
+                        <td className="py-1 text-red-600">{formatValues(attributes, change.before)}</td>
+                        <td className="py-1 text-green-700">{formatValues(attributes, change.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {changes.length > DIFF_LIMIT && (
+                  <p className="text-xs text-gray-500 mt-1">Showing the first {DIFF_LIMIT}</p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { Attribute } from '@/lib/attributes';
+import {
+  cohensKappa,
+  confusionMatrix,
+  fleissKappa,
+  formatKappa,
+  SESSION_REVIEWER,
+  type ReviewerResults,
+} from '@/lib/agreement';
+
+interface ReviewersPanelProps {
+  // Includes this session's own labels when there are any
+  reviews: ReviewerResults[];
+  images: string[];
+  attributes: Attribute[];
+  disagreementCount: number;
+  onImport: (files: FileList) => void;
+  onRemove: (reviewer: string) => void;
+  onExport: () => void;
+  onShowDisagreements: () => void;
+  onClose: () => void;
+}
+
+const buttonClass = 'px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 disabled:text-gray-300 disabled:cursor-not-allowed';
+
+// Imported reviewer results with agreement statistics
+export default function ReviewersPanel({
+  reviews,
+  images,
+  attributes,
+  disagreementCount,
+  onImport,
+  onRemove,
+  onExport,
+  onShowDisagreements,
+  onClose,
+}: ReviewersPanelProps) {
+  const [attributeName, setAttributeName] = useState(attributes[0]?.name ?? '');
+  const [pair, setPair] = useState<[number, number]>([0, 1]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const attribute = attributes.find(a => a.name === attributeName) ?? attributes[0];
+  // Values found in files but missing from the current settings still belong in the matrix
+  const values = Array.from(new Set([
+    ...attribute.labels.map(label => label.value),
+    ...reviews.flatMap(({ choices }) => Array.from(choices.values(), entry => entry.values[attribute.name] ?? '')),
+  ])).filter(Boolean);
+
+  const left = reviews[pair[0]];
+  const right = reviews[pair[1]];
+  const matrix = left && right && left !== right ? confusionMatrix(left, right, attribute.name, values) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-6 w-[44rem] max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-gray-800">Reviewers</h2>
+
+        <ul className="text-sm space-y-1 mb-3">
+          {reviews.map(({ reviewer, choices }) => (
+            <li key={reviewer} className="flex items-center justify-between">
+              <span>{reviewer} <span className="text-gray-500">({choices.size} images)</span></span>
+              {reviewer !== SESSION_REVIEWER && (
+                <button onClick={() => onRemove(reviewer)} className="text-red-500 hover:text-red-700 px-2" title="Remove">✕</button>
+              )}
+            </li>
+          ))}
+          {reviews.length === 0 && <li className="text-gray-400">No reviewer results imported yet</li>}
+        </ul>
+
+        <div className="flex gap-2 mb-4">
+          <button onClick={() => inputRef.current?.click()} className={buttonClass}>Import results…</button>
+          <button onClick={onExport} disabled={reviews.length === 0} className={buttonClass}>Export merged CSV</button>
+          <button onClick={onShowDisagreements} disabled={disagreementCount === 0} className={buttonClass}>
+            Show {disagreementCount} disagreement(s)
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,text/csv"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files?.length) onImport(e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {reviews.length >= 2 && (
+          <>
+            {attributes.length > 1 && (
+              <label className="flex items-center gap-2 text-sm mb-3">
+                Attribute
+                <select
+                  value={attribute.name}
+                  onChange={(e) => setAttributeName(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded"
+                >
+                  {attributes.map(a => <option key={a.name} value={a.name}>{a.name}</option>)}
+                </select>
+              </label>
+            )}
+
+            <p className="text-sm mb-2">
+              Fleiss&apos; kappa ({reviews.length} reviewers, images labeled by all):{' '}
+              <span className="font-semibold">{formatKappa(fleissKappa(reviews, images, attribute.name))}</span>
+            </p>
+
+            <table className="text-sm mb-4 border-collapse">
+              <caption className="text-left text-xs text-gray-500 mb-1">Cohen&apos;s kappa per pair</caption>
+              <thead>
+                <tr>
+                  <th />
+                  {reviews.map(({ reviewer }) => <th key={reviewer} className="px-2 font-medium">{reviewer}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {reviews.map((row, i) => (
+                  <tr key={row.reviewer}>
+                    <th className="px-2 text-left font-medium">{row.reviewer}</th>
+                    {reviews.map((column, j) => (
+                      <td key={column.reviewer} className="px-2 text-center border border-gray-200">
+                        {i === j ? '—' : (
+                          <button onClick={() => setPair([i, j])} className="hover:underline" title="Show confusion matrix">
+                            {formatKappa(cohensKappa(row, column, attribute.name))}
+                          </button>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {matrix && (
+              <table className="text-sm border-collapse">
+                <caption className="text-left text-xs text-gray-500 mb-1">
+                  Confusion matrix: {left.reviewer} (rows) vs {right.reviewer} (columns)
+                </caption>
+                <thead>
+                  <tr>
+                    <th />
+                    {values.map(value => <th key={value} className="px-2 font-medium">{value}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {values.map((value, i) => (
+                    <tr key={value}>
+                      <th className="px-2 text-left font-medium">{value}</th>
+                      {matrix[i].map((count, j) => (
+                        <td key={j} className={`px-2 text-center border border-gray-200 ${i === j ? 'bg-green-50' : count > 0 ? 'bg-red-50' : ''}`}>
+                          {count}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <button onClick={onClose} className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50">
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { DEFAULT_ATTRIBUTES, type Attribute, type FollowUpOption, type FollowUpQuestion, type Label } from '@/lib/attributes';
+import {
+  formatProfilesJson,
+  mergeProfiles,
+  parseProfilesJson,
+  validateProfiles,
+  type LabelProfile,
+  type ProfileState,
+} from '@/lib/profiles';
+
+interface SettingsPanelProps {
+  state: ProfileState;
+  shortcutKeys: string[];
+  // Renamed attributes and follow-up questions of the active profile, old name to new, so stored values can follow
+  onSave: (state: ProfileState, renamedColumns: Map<string, string>) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const uniqueName = (base: string, profiles: LabelProfile[]) => {
+  let name = base;
+  for (let n = 2; profiles.some(profile => profile.name === name); n++) {
+    name = `${base} ${n}`;
+  }
+  return name;
+};
+
+// Attribute and question names key the stored values (and question names are referenced by labels and options),
+// so a rename is applied once editing the name is finished rather than on every keystroke
+const NameInput = ({ name, placeholder, onRename }: { name: string; placeholder: string; onRename: (name: string) => void }) => {
+  const [draft, setDraft] = useState(name);
+
+  useEffect(() => {
+    setDraft(name);
+  }, [name]);
+
+  return (
+    <input
+      type="text"
+      placeholder={placeholder}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        if (draft.trim() !== name) onRename(draft.trim());
+        setDraft(name);
+      }}
+      className={inputClass}
+    />
+  );
+};
+
+// Fold a rename into earlier ones, so A → B → C is recorded as A → C
+const addRename = (renames: Map<string, string>, from: string, to: string) => {
+  const next = new Map(renames);
+  const original = Array.from(next).find(([, current]) => current === from)?.[0] ?? from;
+  if (original === to) next.delete(original);
+  else next.set(original, to);
+  return next;
+};
+
+// In-app label settings with named profiles
+export default function SettingsPanel({ state, shortcutKeys, onSave, onClose }: SettingsPanelProps) {
+  const [profiles, setProfiles] = useState<LabelProfile[]>(state.profiles);
+  const [selectedIndex, setSelectedIndex] = useState(
+    Math.max(state.profiles.findIndex(profile => profile.name === state.activeProfile), 0)
+  );
+  const [error, setError] = useState('');
+  // Per profile, in the same order as `profiles`
+  const [columnRenames, setColumnRenames] = useState<Map<string, string>[]>(() => state.profiles.map(() => new Map()));
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const profile = profiles[selectedIndex];
+
+  const updateProfile = (update: Partial<LabelProfile>) => {
+    setProfiles(prev => prev.map((p, i) => (i === selectedIndex ? { ...p, ...update } : p)));
+  };
+
+  const updateAttribute = (attributeIndex: number, update: Partial<Attribute>) => {
+    updateProfile({
+      attributes: profile.attributes.map((a, i) => (i === attributeIndex ? { ...a, ...update } : a)),
+    });
+  };
+
+  const updateLabel = (attributeIndex: number, labelIndex: number, update: Partial<Label>) => {
+    const attribute = profile.attributes[attributeIndex];
+    updateAttribute(attributeIndex, {
+      labels: attribute.labels.map((l, i) => (i === labelIndex ? { ...l, ...update } : l)),
+    });
+  };
+
+  const updateQuestion = (attributeIndex: number, questionIndex: number, update: Partial<Omit<FollowUpQuestion, 'name'>>) => {
+    const attribute = profile.attributes[attributeIndex];
+    updateAttribute(attributeIndex, {
+      questions: attribute.questions!.map((question, i) => (i === questionIndex ? { ...question, ...update } : question)),
+    });
+  };
+
+  const recordRename = (from: string, to: string) => {
+    setColumnRenames(prev => prev.map((renames, i) => (i === selectedIndex ? addRename(renames, from, to) : renames)));
+  };
+
+  const renameAttribute = (attributeIndex: number, name: string) => {
+    const previousName = profile.attributes[attributeIndex].name;
+    if (previousName && !name) {
+      setError('属性名を入力してください');
+      return;
+    }
+    if (profile.attributes.some((attribute, i) => i !== attributeIndex && attribute.name === name)) {
+      setError(`属性「${name}」は既に存在します`);
+      return;
+    }
+    updateAttribute(attributeIndex, { name });
+    if (previousName) {
+      recordRename(previousName, name);
+    }
+    setError('');
+  };
+
+  const renameQuestion = (attributeIndex: number, questionIndex: number, name: string) => {
+    const attribute = profile.attributes[attributeIndex];
+    const questions = attribute.questions!;
+    const previousName = questions[questionIndex].name;
+    if (previousName && !name) {
+      setError('フォローアップ質問の名前を入力してください');
+      return;
+    }
+    if (questions.some((question, i) => i !== questionIndex && question.name === name)) {
+      setError(`フォローアップ質問「${name}」は既に存在します`);
+      return;
+    }
+    // Keep labels and options pointing at the renamed question
+    const rename = (reference: string | undefined) => (previousName && reference === previousName ? name : reference);
+    updateAttribute(attributeIndex, {
+      labels: attribute.labels.map(label => ({ ...label, followUp: rename(label.followUp) })),
+      questions: questions.map((question, i) => ({
+        ...question,
+        name: i === questionIndex ? name : question.name,
+        options: question.options.map(option => ({ ...option, next: rename(option.next) })),
+      })),
+    });
+    if (previousName) {
+      recordRename(previousName, name);
+    }
+    setError('');
+  };
+
+  const updateOption = (attributeIndex: number, questionIndex: number, optionIndex: number, update: Partial<FollowUpOption>) => {
+    const question = profile.attributes[attributeIndex].questions![questionIndex];
+    updateQuestion(attributeIndex, questionIndex, {
+      options: question.options.map((o, i) => (i === optionIndex ? { ...o, ...update } : o)),
+    });
+  };
+
+  const removeQuestion = (attributeIndex: number, questionIndex: number) => {
+    const attribute = profile.attributes[attributeIndex];
+    const name = attribute.questions![questionIndex].name;
+    const unlink = (reference: string | undefined) => (reference === name ? undefined : reference);
+    updateAttribute(attributeIndex, {
+      labels: attribute.labels.map(label => ({ ...label, followUp: unlink(label.followUp) })),
+      questions: attribute.questions!
+        .filter((_, i) => i !== questionIndex)
+        .map(question => ({ ...question, options: question.options.map(option => ({ ...option, next: unlink(option.next) })) })),
+    });
+  };
+
+  const addProfile = (base: LabelProfile) => {
+    const name = uniqueName(base === profile ? `${base.name} (copy)` : 'New profile', profiles);
+    setProfiles([...profiles, { name, attributes: base.attributes }]);
+    setColumnRenames([...columnRenames, new Map()]);
+    setSelectedIndex(profiles.length);
+  };
+
+  const removeProfile = () => {
+    if (profiles.length === 1) {
+      setError('最低1つのプロファイルは必要です');
+      return;
+    }
+    setProfiles(profiles.filter((_, i) => i !== selectedIndex));
+    setColumnRenames(columnRenames.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(0);
+  };
+
+  const exportProfiles = () => {
+    const url = URL.createObjectURL(new Blob([formatProfilesJson(profiles)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'label-profiles.json';
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProfiles = async (file: File | undefined) => {
+    if (!file) return;
+    const result = parseProfilesJson(await file.text());
+    if (!result.ok) {
+      setError(`Import failed: ${result.error}`);
+      return;
+    }
+    const merged = mergeProfiles(profiles, result.value);
+    setProfiles(merged);
+    // Imported profiles replace the edited ones, renames included
+    setColumnRenames(merged.map(p => columnRenames[profiles.indexOf(p)] ?? new Map()));
+    setSelectedIndex(Math.max(merged.findIndex(p => p.name === result.value[0].name), 0));
+    setError(`${result.value.length} profile(s) imported`);
+  };
+
+  const save = () => {
+    const names = profiles.map(p => p.name.trim());
+    if (names.some(name => !name) || names.length !== new Set(names).size) {
+      setError('プロファイル名が空か重複しています');
+      return;
+    }
+    const result = validateProfiles(profiles);
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    onSave({ profiles: result.value, activeProfile: result.value[selectedIndex].name }, columnRenames[selectedIndex]);
+  };
+
+  // Label keys override other shortcuts, so point out the ones that would be shadowed
+  const shadowedKeys = profile.attributes
+    .flatMap(attribute => attribute.labels.map(label => label.key.toLowerCase()))
+    .filter(key => shortcutKeys.includes(key));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-6 w-[40rem] max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-gray-800">Label Settings</h2>
+
+        <div className="flex items-end gap-2 mb-4">
+          <div className="flex-1">
+            <label className="block text-xs font-medium text-gray-600 mb-1">Profile</label>
+            <select
+              value={selectedIndex}
+              onChange={(e) => setSelectedIndex(Number(e.target.value))}
+              className={inputClass}
+            >
+              {profiles.map((p, i) => <option key={i} value={i}>{p.name}</option>)}
+            </select>
+          </div>
+          <button onClick={() => addProfile({ name: '', attributes: DEFAULT_ATTRIBUTES })} className="px-3 py-2 border border-gray-300 rounded hover:bg-gray-50 text-sm">New</button>
+          <button onClick={() => addProfile(profile)} className="px-3 py-2 border border-gray-300 rounded hover:bg-gray-50 text-sm">Duplicate</button>
+          <button onClick={removeProfile} className="px-3 py-2 border border-gray-300 rounded hover:bg-gray-50 text-sm text-red-600">Delete</button>
+        </div>
+
+        <div className="mb-4">
+          <label className="block text-xs font-medium text-gray-600 mb-1">Profile Name</label>
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => updateProfile({ name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+
+        <p className="text-sm text-gray-600 mb-2">
+          属性（Attribute）ごとに、キーボードショートカット（Key）と保存される値（CSV Value）を設定してください。属性名はCSVの列名になります
+        </p>
+
+        <div className="space-y-4">
+          {profile.attributes.map((attribute, attributeIndex) => (
+            <div key={attributeIndex} className="p-3 border border-gray-300 rounded-lg">
+              <div className="flex items-end gap-3 mb-3">
+                <div className="flex-1">
+                  <label className="block text-xs font-medium text-gray-600 mb-1">Attribute (CSV Column)</label>
+                  <NameInput
+                    name={attribute.name}
+                    placeholder="e.g., Legend"
+                    onRename={(name) => renameAttribute(attributeIndex, name)}
+                  />
+                </div>
+                <label className="flex items-center gap-1 text-sm text-gray-600 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={attribute.required}
+                    onChange={(e) => updateAttribute(attributeIndex, { required: e.target.checked })}
+                  />
+                  Required
+                </label>
+                <button
+                  onClick={() => {
+                    if (profile.attributes.length === 1) {
+                      setError('最低1つの属性は必要です');
+                      return;
+                    }
+                    updateProfile({ attributes: profile.attributes.filter((_, i) => i !== attributeIndex) });
+                  }}
+                  className="text-red-500 hover:text-red-700 p-2"
+                  title="削除"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="space-y-3">
+                {attribute.labels.map((label, labelIndex) => (
+                  <div key={labelIndex} className="flex items-center gap-3 p-3 border border-gray-200 rounded-lg bg-gray-50">
+                    <div className="flex-1">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Keyboard Key</label>
+                      <input
+                        type="text"
+                        placeholder="e.g., y"
+                        value={label.key}
+                        maxLength={1}
+                        onChange={(e) => updateLabel(attributeIndex, labelIndex, { key: e.target.value })}
+                        className={`${inputClass} text-center font-mono ${
+                          shadowedKeys.includes(label.key.toLowerCase()) ? 'border-yellow-500' : ''
+                        }`}
+                      />
+                    </div>
+                    <div className="flex-1">
+                      <label className="block text-xs font-medium text-gray-600 mb-1">CSV Value</label>
+                      <input
+                        type="text"
+                        placeholder="e.g., Y"
+                        value={label.value}
+                        onChange={(e) => updateLabel(attributeIndex, labelIndex, { value: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    {(attribute.questions ?? []).length > 0 && (
+                      <div className="flex-1">
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Follow-up</label>
+                        <select
+                          value={label.followUp ?? ''}
+                          onChange={(e) => updateLabel(attributeIndex, labelIndex, { followUp: e.target.value || undefined })}
+                          className={inputClass}
+                        >
+                          <option value="">None</option>
+                          {attribute.questions!.map((question, i) => <option key={i} value={question.name}>{question.name}</option>)}
+                        </select>
+                      </div>
+                    )}
+                    <button
+                      onClick={() => {
+                        if (attribute.labels.length === 1) {
+                          setError('最低1つのオプションは必要です');
+                          return;
+                        }
+                        updateAttribute(attributeIndex, { labels: attribute.labels.filter((_, i) => i !== labelIndex) });
+                      }}
+                      className="text-red-500 hover:text-red-700 p-2 mt-5"
+                      title="削除"
+                    >
+                      ✕
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <button
+                onClick={() => updateAttribute(attributeIndex, { labels: [...attribute.labels, { key: '', value: '' }] })}
+                className="w-full mt-3 px-4 py-1 border border-dashed border-gray-300 text-sm text-gray-600 rounded hover:border-gray-400 hover:text-gray-700"
+              >
+                + オプションを追加
+              </button>
+
+              <div className="mt-3 space-y-3">
+                {(attribute.questions ?? []).map((question, questionIndex) => (
+                  <div key={questionIndex} className="p-3 border border-gray-200 rounded-lg">
+                    <div className="flex items-end gap-3">
+                      <div className="flex-1">
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Follow-up Question (CSV Column)</label>
+                        <NameInput
+                          name={question.name}
+                          placeholder="e.g., Reason"
+                          onRename={(name) => renameQuestion(attributeIndex, questionIndex, name)}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-xs font-medium text-gray-600 mb-1">Answer</label>
+                        <select
+                          value={question.kind}
+                          onChange={(e) => updateQuestion(attributeIndex, questionIndex, {
+                            kind: e.target.value as FollowUpQuestion['kind'],
+                          })}
+                          className={inputClass}
+                        >
+                          <option value="choice">Pick from list</option>
+                          <option value="comment">Require comment</option>
+                        </select>
+                      </div>
+                      <button
+                        onClick={() => removeQuestion(attributeIndex, questionIndex)}
+                        className="text-red-500 hover:text-red-700 p-2"
+                        title="削除"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                    {question.kind === 'choice' && (
+                      <div className="mt-2 space-y-2">
+                        {question.options.map((option, optionIndex) => (
+                          <div key={optionIndex} className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              placeholder="Key"
+                              value={option.key}
+                              maxLength={1}
+                              onChange={(e) => updateOption(attributeIndex, questionIndex, optionIndex, { key: e.target.value })}
+                              className={`${inputClass} w-16 text-center font-mono`}
+                            />
+                            <input
+                              type="text"
+                              placeholder="e.g., Axis label missing"
+                              value={option.value}
+                              onChange={(e) => updateOption(attributeIndex, questionIndex, optionIndex, { value: e.target.value })}
+                              className={inputClass}
+                            />
+                            <select
+                              value={option.next ?? ''}
+                              onChange={(e) => updateOption(attributeIndex, questionIndex, optionIndex, { next: e.target.value || undefined })}
+                              className={inputClass}
+                              title="Next question"
+                            >
+                              <option value="">Done</option>
+                              {attribute.questions!
+                                .filter((_, i) => i !== questionIndex)
+                                .map((next, i) => <option key={i} value={next.name}>Then: {next.name}</option>)}
+                            </select>
+                            <button
+                              onClick={() => updateQuestion(attributeIndex, questionIndex, {
+                                options: question.options.filter((_, i) => i !== optionIndex),
+                              })}
+                              className="text-red-500 hover:text-red-700 p-2"
+                              title="削除"
+                            >
+                              ✕
+                            </button>
+                          </div>
+                        ))}
+                        <button
+                          onClick={() => updateQuestion(attributeIndex, questionIndex, {
+                            options: [...question.options, { key: '', value: '' }],
+                          })}
+                          className="w-full px-4 py-1 border border-dashed border-gray-300 text-sm text-gray-600 rounded hover:border-gray-400 hover:text-gray-700"
+                        >
+                          + 選択肢を追加
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+                <button
+                  onClick={() => updateAttribute(attributeIndex, {
+                    questions: [...(attribute.questions ?? []), { name: '', kind: 'choice', options: [{ key: '', value: '' }] }],
+                  })}
+                  className="w-full px-4 py-1 border border-dashed border-gray-300 text-sm text-gray-600 rounded hover:border-gray-400 hover:text-gray-700"
+                >
+                  + フォローアップ質問を追加
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4">
+          <button
+            onClick={() => updateProfile({
+              attributes: [...profile.attributes, { name: '', required: true, labels: [{ key: '', value: '' }] }],
+            })}
+            className="w-full px-4 py-2 border-2 border-dashed border-gray-300 text-gray-600 rounded hover:border-gray-400 hover:text-gray-700"
+          >
+            + 属性を追加
+          </button>
+        </div>
+
+        {shadowedKeys.length > 0 && (
+          <p className="mt-4 text-sm text-yellow-700">
+            次のキーは他のショートカットにも割り当てられています（ラベルが優先されます）: {shadowedKeys.join(', ')}
+          </p>
+        )}
+        {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
+
+        <div className="flex justify-between mt-6">
+          <div className="flex space-x-2">
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Import
+            </button>
+            <button
+              onClick={exportProfiles}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Export
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                importProfiles(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          <div className="flex space-x-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Attribute } from '@/lib/attributes';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_DESCRIPTIONS,
+  eventToCombo,
+  findShortcutConflicts,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '@/lib/shortcuts';
+
+interface ShortcutsOverlayProps {
+  bindings: ShortcutBindings;
+  attributes: Attribute[];
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+// "?" overlay listing every binding; non-label shortcuts can be remapped here
+export default function ShortcutsOverlay({ bindings, attributes, onChange, onClose }: ShortcutsOverlayProps) {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const conflicts = findShortcutConflicts(bindings, attributes);
+  const conflictingCombos = new Set(conflicts.map(conflict => conflict.combo));
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.stopPropagation();
+
+      if (!capturing) {
+        if (event.key === 'Escape' || event.key === '?') {
+          event.preventDefault();
+          onClose();
+        }
+        return;
+      }
+      event.preventDefault();
+      if (event.key === 'Escape') {
+        setCapturing(null);
+        return;
+      }
+
+      const combo = eventToCombo(event);
+      if (!combo) return;
+      if (!bindings[capturing].includes(combo)) {
+        onChange({ ...bindings, [capturing]: [...bindings[capturing], combo] });
+      }
+      setCapturing(null);
+    };
+
+    // Capture phase so the page's own shortcut handler never sees these keys
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing, bindings, onChange, onClose]);
+
+  const removeCombo = (action: ShortcutAction, combo: string) => {
+    onChange({ ...bindings, [action]: bindings[action].filter(c => c !== combo) });
+  };
+
+  const comboClass = (combo: string) =>
+    `font-mono text-xs px-2 py-0.5 rounded border ${
+      conflictingCombos.has(combo) ? 'border-red-400 bg-red-50 text-red-700' : 'border-gray-300 bg-gray-50'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-6 w-[36rem] max-h-[85vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-800">Keyboard Shortcuts</h2>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 p-2" title="Close (Esc)">✕</button>
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="mb-4 p-3 border border-red-300 bg-red-50 rounded text-sm text-red-700">
+            {conflicts.map(conflict => (
+              <p key={conflict.combo}>
+                <span className="font-mono">{conflict.combo}</span> is bound to {conflict.usedBy.join(', ')}
+              </p>
+            ))}
+            <p className="text-xs mt-1">Label keys take precedence over other shortcuts.</p>
+          </div>
+        )}
+
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Labels</h3>
+        <table className="w-full text-sm mb-4">
+          <tbody>
+            {attributes.flatMap(attribute => attribute.labels.map(label => (
+              <tr key={`${attribute.name}-${label.key}`} className="border-t border-gray-100">
+                <td className="py-1">
+                  {attributes.length > 1 ? `${attribute.name}: ` : ''}{label.value}
+                </td>
+                <td className="py-1 text-right">
+                  <span className={comboClass(label.key.toLowerCase())}>{label.key}</span>
+                </td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-500 mb-4">Label keys are changed in Settings.</p>
+
+        <h3 className="text-sm font-semibold text-gray-700 mb-2">Other shortcuts</h3>
+        <table className="w-full text-sm">
+          <tbody>
+            {(Object.keys(SHORTCUT_DESCRIPTIONS) as ShortcutAction[]).map(action => (
+              <tr key={action} className="border-t border-gray-100">
+                <td className="py-1">{SHORTCUT_DESCRIPTIONS[action]}</td>
+                <td className="py-1 text-right">
+                  <div className="flex flex-wrap justify-end gap-1">
+                    {bindings[action].map(combo => (
+                      <span key={combo} className={comboClass(combo)}>
+                        {combo}
+                        <button
+                          onClick={() => removeCombo(action, combo)}
+                          className="ml-1 text-gray-400 hover:text-red-600"
+                          title="Remove"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    <button
+                      onClick={() => setCapturing(action)}
+                      className={`text-xs px-2 py-0.5 rounded border border-dashed ${
+                        capturing === action ? 'border-blue-500 text-blue-600' : 'border-gray-300 text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {capturing === action ? 'Press a key…' : '+'}
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end mt-6">
+          <button
+            onClick={() => onChange(DEFAULT_SHORTCUTS)}
+            className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
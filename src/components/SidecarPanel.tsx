@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { parseCsv } from '@/lib/csv';
+import { parseInline, parseMarkdown, type MarkdownBlock } from '@/lib/markdown';
+import { SIDECAR_MAX_BYTES, getSidecarKind, type Sidecar } from '@/lib/sidecars';
+
+interface SidecarPanelProps {
+  sidecars: Sidecar[];
+}
+
+const CSV_MAX_ROWS = 50;
+
+const InlineText = ({ text }: { text: string }) => {
+  return (
+    <>
+      {parseInline(text).map((span, index) => {
+        switch (span.type) {
+          case 'code':
+            return <code key={index} className="px-1 bg-gray-100 rounded font-mono text-xs">{span.text}</code>;
+          case 'strong':
+            return <strong key={index}>{span.text}</strong>;
+          case 'em':
+            return <em key={index}>{span.text}</em>;
+          case 'link':
+            return <a key={index} href={span.href} target="_blank" rel="noreferrer" className="text-blue-600 underline">{span.text}</a>;
+          default:
+            return <span key={index}>{span.text}</span>;
+        }
+      })}
+    </>
+  );
+};
+
+const MarkdownView = ({ blocks }: { blocks: MarkdownBlock[] }) => {
+  return (
+    <div className="space-y-2 text-sm text-gray-800">
+      {blocks.map((block, index) => {
+        switch (block.type) {
+          case 'heading':
+            return <p key={index} className={`font-bold ${block.level <= 2 ? 'text-base' : ''}`}><InlineText text={block.text} /></p>;
+          case 'quote':
+            return <blockquote key={index} className="pl-3 border-l-4 border-gray-300 text-gray-600"><InlineText text={block.text} /></blockquote>;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index} className={`pl-5 ${block.ordered ? 'list-decimal' : 'list-disc'}`}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}><InlineText text={item} /></li>)}
+              </List>
+            );
+          }
+          case 'code':
+            return <pre key={index} className="p-2 bg-gray-100 rounded text-xs overflow-x-auto">{block.text}</pre>;
+          case 'rule':
+            return <hr key={index} className="border-gray-200" />;
+          default:
+            return <p key={index}><InlineText text={block.text} /></p>;
+        }
+      })}
+    </div>
+  );
+};
+
+const CsvView = ({ text }: { text: string }) => {
+  const { header, records } = parseCsv(text);
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-xs border-collapse">
+        <thead>
+          <tr>
+            {header.map((name, index) => <th key={index} className="px-2 py-1 border border-gray-200 bg-gray-50 text-left">{name}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {records.slice(0, CSV_MAX_ROWS).map(record => (
+            <tr key={record.line}>
+              {header.map((_, index) => <td key={index} className="px-2 py-1 border border-gray-200">{record.values[index] ?? ''}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {records.length > CSV_MAX_ROWS && (
+        <p className="text-xs text-gray-500 mt-1">Showing {CSV_MAX_ROWS} of {records.length} rows</p>
+      )}
+    </div>
+  );
+};
+
+const formatJson = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+const SidecarContent = ({ sidecar }: { sidecar: Sidecar }) => {
+  const [text, setText] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(null);
+    let cancelled = false;
+    sidecar.file.slice(0, SIDECAR_MAX_BYTES).text().then(
+      content => { if (!cancelled) setText(content); },
+      error => {
+        console.error(`Failed to read ${sidecar.path}:`, error);
+        if (!cancelled) setText('');
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [sidecar]);
+
+  if (text === null) return <p className="text-xs text-gray-500">Reading…</p>;
+
+  const truncated = sidecar.file.size > SIDECAR_MAX_BYTES;
+  const kind = getSidecarKind(sidecar.path);
+  return (
+    <>
+      {kind === 'markdown' ? (
+        <MarkdownView blocks={parseMarkdown(text)} />
+      ) : kind === 'csv' && !truncated ? (
+        <CsvView text={text} />
+      ) : (
+        <pre className="text-xs whitespace-pre-wrap break-words max-h-64 overflow-y-auto">
+          {kind === 'json' && !truncated ? formatJson(text) : text}
+        </pre>
+      )}
+      {truncated && <p className="text-xs text-gray-500 mt-1">Truncated to the first {SIDECAR_MAX_BYTES / 1024} KB</p>}
+    </>
+  );
+};
+
+// Caption and data files sharing the figure's basename, shown below the figure
+export default function SidecarPanel({ sidecars }: SidecarPanelProps) {
+  if (sidecars.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-2">
+      {sidecars.map(sidecar => (
+        <details key={sidecar.path} className="border border-gray-200 rounded" open>
+          <summary className="px-3 py-1 text-sm font-medium text-gray-700 cursor-pointer bg-gray-50">
+            {sidecar.path.split('/').pop()}
+          </summary>
+          <div className="p-3 max-h-80 overflow-y-auto">
+            <SidecarContent sidecar={sidecar} />
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
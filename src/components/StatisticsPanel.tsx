@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { Attribute, ImageEntry } from '@/lib/attributes';
+import {
+  computeRate,
+  computeStatistics,
+  formatDuration,
+  formatStatisticsCsv,
+  formatStatisticsJson,
+  type GroupBy,
+  type SessionProgress,
+} from '@/lib/statistics';
+
+interface StatisticsPanelProps {
+  directory: string;
+  images: string[];
+  imageChoices: Map<string, ImageEntry>;
+  attributes: Attribute[];
+  progress: SessionProgress;
+  onExport: (extension: 'csv' | 'json', content: string) => void;
+  onClose: () => void;
+}
+
+const RATE_REFRESH_MS = 30_000;
+
+const Bar = ({ percent, className }: { percent: number; className: string }) => (
+  <div className="h-2 bg-gray-100 rounded overflow-hidden">
+    <div className={`h-full ${className}`} style={{ width: `${percent}%` }} />
+  </div>
+);
+
+// Progress, label distribution and per-folder breakdown for the current directory
+export default function StatisticsPanel({
+  directory,
+  images,
+  imageChoices,
+  attributes,
+  progress,
+  onExport,
+  onClose,
+}: StatisticsPanelProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('folder');
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), RATE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const statistics = useMemo(
+    () => computeStatistics(images, imageChoices, attributes, groupBy),
+    [images, imageChoices, attributes, groupBy]
+  );
+  const rate = computeRate(statistics, progress, now);
+  const firstAttribute = attributes[0];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40" onClick={onClose}>
+      <div
+        className="bg-white rounded-lg shadow-lg p-6 w-[44rem] max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold mb-4 text-gray-800">Statistics</h2>
+
+        <div className="mb-4">
+          <div className="flex justify-between text-sm mb-1">
+            <span>{statistics.labeled} of {statistics.total} labeled</span>
+            <span>{statistics.remaining} remaining</span>
+          </div>
+          <Bar percent={statistics.total ? (statistics.labeled / statistics.total) * 100 : 0} className="bg-green-500" />
+          <p className="text-sm text-gray-600 mt-1">
+            {rate.perHour > 0
+              ? `${rate.perHour.toFixed(1)} figures/hour this session`
+              : 'No figures labeled in this session yet'}
+            {rate.etaMs !== null && statistics.remaining > 0 && ` · about ${formatDuration(rate.etaMs)} left`}
+          </p>
+        </div>
+
+        {statistics.attributes.map(attribute => (
+          <div key={attribute.name} className="mb-4">
+            <h3 className="text-sm font-semibold mb-1">{attribute.name}</h3>
+            <table className="w-full text-sm">
+              <tbody>
+                {attribute.values.map(({ value, count, percent }) => (
+                  <tr key={value}>
+                    <td className="w-32 pr-2">{value}</td>
+                    <td className="pr-2"><Bar percent={percent} className="bg-blue-500" /></td>
+                    <td className="w-24 text-right text-gray-600">{count} ({percent.toFixed(1)}%)</td>
+                  </tr>
+                ))}
+                <tr className="text-gray-400">
+                  <td className="pr-2">Not set</td>
+                  <td />
+                  <td className="text-right">{attribute.unset}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        ))}
+
+        <div className="mb-2 flex items-center gap-2 text-sm">
+          <h3 className="font-semibold">Breakdown by</h3>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+            className="px-2 py-1 border border-gray-300 rounded"
+          >
+            <option value="folder">Subfolder</option>
+            <option value="prefix">File name prefix</option>
+          </select>
+        </div>
+        <table className="w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pr-2 font-medium">{groupBy === 'folder' ? 'Folder' : 'Prefix'}</th>
+              <th className="pr-2 font-medium text-right">Labeled</th>
+              {firstAttribute?.labels.map(label => (
+                <th key={label.value} className="pr-2 font-medium text-right">{label.value}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {statistics.groups.map(group => (
+              <tr key={group.group} className="border-t border-gray-100">
+                <td className="pr-2 break-all">{group.group}</td>
+                <td className="pr-2 text-right">{group.labeled}/{group.total}</td>
+                {firstAttribute?.labels.map(label => (
+                  <td key={label.value} className="pr-2 text-right">{group.values[label.value] ?? 0}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-between mt-6">
+          <div className="flex space-x-2">
+            <button
+              onClick={() => onExport('csv', formatStatisticsCsv(statistics, rate, attributes))}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Export CSV
+            </button>
+            <button
+              onClick={() => onExport('json', formatStatisticsJson(statistics, rate, directory, new Date()))}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+            >
+              Export JSON
+            </button>
+          </div>
+          <button onClick={onClose} className="px-4 py-2 bg-blue-500 text-white rounded hover:bg-blue-600">Close</button>
+        </div>
+      </div>
+    </div>
+  );
+}
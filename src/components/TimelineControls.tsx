@@ -0,0 +1,148 @@
+'use client';
+
+import type { Attribute } from '@/lib/attributes';
+import { QUALITY_ISSUE_LABELS, type QualityIssue } from '@/lib/qualityChecks';
+import {
+  ANY_CHECK,
+  DEFAULT_TIMELINE_FILTER,
+  UNSELECTED,
+  isFilterActive,
+  labelOptionValue,
+  parseLabelOption,
+  type TimelineFilter,
+  type TimelineSort,
+  type TimelineSortKey,
+} from '@/lib/timelineView';
+
+interface TimelineControlsProps {
+  attributes: Attribute[];
+  filter: TimelineFilter;
+  sort: TimelineSort;
+  shownCount: number;
+  totalCount: number;
+  // Offer sorting by difference score while a reference directory is loaded
+  hasReference: boolean;
+  // Offer the disagreement filter while reviewer results are loaded
+  hasReviews: boolean;
+  // Offer the changed-on-disk filter once a rescan found rewritten figures
+  hasChanged: boolean;
+  onFilterChange: (filter: TimelineFilter) => void;
+  onSortChange: (sort: TimelineSort) => void;
+}
+
+const SORT_OPTIONS: { key: TimelineSortKey; label: string }[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'modified', label: 'Modified' },
+  { key: 'size', label: 'File size' },
+  { key: 'label', label: 'Label' },
+  { key: 'difference', label: 'Difference to reference' },
+];
+
+const controlClass = 'px-2 py-1 text-sm border border-gray-300 rounded bg-white';
+
+export default function TimelineControls({
+  attributes,
+  filter,
+  sort,
+  shownCount,
+  totalCount,
+  hasReference,
+  hasReviews,
+  hasChanged,
+  onFilterChange,
+  onSortChange,
+}: TimelineControlsProps) {
+  return (
+    <div className="space-y-2 mb-3">
+      <input
+        type="search"
+        value={filter.query}
+        onChange={(e) => onFilterChange({ ...filter, query: e.target.value })}
+        placeholder="Search name or glob (e.g. exp1/**/*.png)"
+        className={`w-full ${controlClass}`}
+      />
+      <div className="flex gap-2">
+        <select
+          value={typeof filter.label === 'string' ? filter.label : labelOptionValue(filter.label)}
+          onChange={(e) => {
+            const { value } = e.target;
+            onFilterChange({ ...filter, label: value === '' || value === UNSELECTED ? value : parseLabelOption(value) });
+          }}
+          className={`flex-1 min-w-0 ${controlClass}`}
+        >
+          <option value="">All labels</option>
+          <option value={UNSELECTED}>Not selected</option>
+          {attributes.map(attribute => attribute.labels.map(label => (
+            <option key={`${attribute.name}-${label.value}`} value={labelOptionValue({ attribute: attribute.name, value: label.value })}>
+              {attributes.length > 1 ? `${attribute.name}: ` : ''}{label.value}
+            </option>
+          )))}
+        </select>
+        <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={filter.hasComment}
+            onChange={(e) => onFilterChange({ ...filter, hasComment: e.target.checked })}
+          />
+          💬
+        </label>
+        {hasReviews && (
+          <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap" title="Reviewers disagree">
+            <input
+              type="checkbox"
+              checked={filter.disagreement}
+              onChange={(e) => onFilterChange({ ...filter, disagreement: e.target.checked })}
+            />
+            ≠
+          </label>
+        )}
+        {hasChanged && (
+          <label className="flex items-center gap-1 text-sm text-gray-600 whitespace-nowrap" title="Changed since labeled">
+            <input
+              type="checkbox"
+              checked={filter.changed}
+              onChange={(e) => onFilterChange({ ...filter, changed: e.target.checked })}
+            />
+            🔄
+          </label>
+        )}
+      </div>
+      <select
+        value={filter.check}
+        onChange={(e) => onFilterChange({ ...filter, check: e.target.value })}
+        className={`w-full ${controlClass}`}
+      >
+        <option value="">All quality checks</option>
+        <option value={ANY_CHECK}>Any check flagged</option>
+        {(Object.keys(QUALITY_ISSUE_LABELS) as QualityIssue[]).map(issue => (
+          <option key={issue} value={issue}>⚠ {QUALITY_ISSUE_LABELS[issue]}</option>
+        ))}
+      </select>
+      <div className="flex gap-2 items-center">
+        <span className="text-xs text-gray-500">Sort</span>
+        <select
+          value={sort.key}
+          onChange={(e) => onSortChange({ ...sort, key: e.target.value as TimelineSortKey })}
+          className={`flex-1 ${controlClass}`}
+        >
+          {SORT_OPTIONS.filter(option => hasReference || option.key !== 'difference').map(option => <option key={option.key} value={option.key}>{option.label}</option>)}
+        </select>
+        <button
+          onClick={() => onSortChange({ ...sort, descending: !sort.descending })}
+          className={controlClass}
+          title={sort.descending ? 'Descending' : 'Ascending'}
+        >
+          {sort.descending ? '↓' : '↑'}
+        </button>
+      </div>
+      {isFilterActive(filter) && (
+        <div className="flex justify-between text-xs text-gray-500">
+          <span>{shownCount} of {totalCount} shown</span>
+          <button onClick={() => onFilterChange(DEFAULT_TIMELINE_FILTER)} className="underline hover:text-gray-700">
+            Clear filter
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
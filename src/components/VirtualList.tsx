@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect, useImperativeHandle, useRef, useState } from 'react';
+
+export interface VirtualListHandle {
+  scrollToIndex: (index: number) => void;
+}
+
+interface VirtualListProps {
+  count: number;
+  // Every row occupies exactly this many pixels, including the gap below it
+  rowHeight: number;
+  // Rows rendered above and below the visible range
+  overscan?: number;
+  className?: string;
+  renderRow: (index: number) => React.ReactNode;
+  ref?: React.Ref<VirtualListHandle>;
+}
+
+// Fixed-height list that only mounts the rows in view, so large folders don't render thousands of thumbnails
+export default function VirtualList({ count, rowHeight, overscan = 5, className = '', renderRow, ref }: VirtualListProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    scrollToIndex: (index: number) => {
+      if (containerRef.current) {
+        containerRef.current.scrollTop = index * rowHeight;
+      }
+    },
+  }), [rowHeight]);
+
+  const first = Math.max(Math.floor(scrollTop / rowHeight) - overscan, 0);
+  const last = Math.min(Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan, count);
+  const rows = [];
+  for (let index = first; index < last; index++) {
+    rows.push(
+      <div key={index} className="absolute inset-x-0" style={{ top: index * rowHeight, height: rowHeight }}>
+        {renderRow(index)}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className={`overflow-y-auto ${className}`} onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}>
+      <div className="relative" style={{ height: count * rowHeight }}>
+        {rows}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useImperativeHandle, useRef, useState } from 'react';
+import FigureImage from '@/components/FigureImage';
+import { fitView, zoomAt, type FitMode, type ViewState } from '@/lib/viewport';
+
+export interface ZoomViewportHandle {
+  // Zoom around the center of the viewport
+  zoomBy: (factor: number) => void;
+  // Return to the selected fit mode
+  reset: () => void;
+}
+
+interface ZoomViewportProps {
+  itemKey: string;
+  file: File | undefined;
+  // Dragging pans unless an annotation tool needs the pointer
+  panEnabled: boolean;
+  // Rendered on top of the figure, scaled and panned with it; receives the current scale
+  children?: (scale: number) => React.ReactNode;
+  ref?: React.Ref<ZoomViewportHandle>;
+}
+
+const FIT_MODES: { mode: FitMode; label: string; title: string }[] = [
+  { mode: 'fit', label: 'Fit', title: 'Fit the whole figure' },
+  { mode: 'width', label: 'Width', title: 'Fit to width' },
+  { mode: 'height', label: 'Height', title: 'Fit to height' },
+  { mode: 'actual', label: '1:1', title: 'One image pixel per screen pixel' },
+];
+
+const WHEEL_ZOOM_SPEED = 0.0015;
+// Movement before a press becomes a drag, so clicks on regions still select them
+const DRAG_THRESHOLD = 3;
+const LOUPE_SIZE = 160;
+const LOUPE_FACTOR = 3;
+
+const buttonClass = (active: boolean) =>
+  `px-2 py-1 rounded border ${active ? 'bg-gray-700 text-white border-gray-700' : 'border-gray-300 hover:bg-gray-50'}`;
+
+// Figure view with cursor-centered wheel/pinch zoom, drag panning, fit modes and a magnifier loupe
+export default function ZoomViewport({ itemKey, file, panEnabled, children, ref }: ZoomViewportProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [image, setImage] = useState<{ src: string; width: number; height: number } | null>(null);
+  const [view, setView] = useState<ViewState | null>(null);
+  const [fitMode, setFitMode] = useState<FitMode>('fit');
+  const [keepView, setKeepView] = useState(false);
+  const [showLoupe, setShowLoupe] = useState(false);
+  const [loupePoint, setLoupePoint] = useState<{ x: number; y: number } | null>(null);
+  const pointersRef = useRef(new Map<number, { x: number; y: number }>());
+  const dragRef = useRef<{ x: number; y: number; dragging: boolean } | null>(null);
+
+  const viewportSize = () => ({
+    width: containerRef.current?.clientWidth ?? 0,
+    height: containerRef.current?.clientHeight ?? 0,
+  });
+
+  const toViewport = (event: { clientX: number; clientY: number }) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const applyFit = (mode: FitMode) => {
+    setFitMode(mode);
+    if (image) {
+      setView(fitView(mode, image, viewportSize()));
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    zoomBy: (factor: number) => {
+      const { width, height } = viewportSize();
+      setView(v => v && zoomAt(v, factor, width / 2, height / 2));
+    },
+    reset: () => {
+      if (image) {
+        setView(fitView(fitMode, image, viewportSize()));
+      }
+    },
+  }), [image, fitMode]);
+
+  // Wheel zoom needs a non-passive listener to stop the page from scrolling; trackpad pinch arrives as ctrl+wheel
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = container.getBoundingClientRect();
+      const factor = Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED * (event.ctrlKey ? 5 : 1));
+      setView(v => v && zoomAt(v, factor, event.clientX - rect.left, event.clientY - rect.top));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handleLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
+    const { currentSrc, naturalWidth, naturalHeight } = event.currentTarget;
+    const loaded = { src: currentSrc, width: naturalWidth || 1, height: naturalHeight || 1 };
+    setImage(loaded);
+    if (!keepView || !view) {
+      setView(fitView(fitMode, loaded, viewportSize()));
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!panEnabled || event.button !== 0) return;
+    pointersRef.current.set(event.pointerId, toViewport(event));
+    dragRef.current = { ...toViewport(event), dragging: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = toViewport(event);
+    setLoupePoint(showLoupe ? point : null);
+
+    const pointers = pointersRef.current;
+    const previous = pointers.get(event.pointerId);
+    if (!previous) return;
+
+    // Two-finger pinch: zoom by the change in distance around the midpoint
+    if (pointers.size === 2) {
+      const [other] = Array.from(pointers).filter(([id]) => id !== event.pointerId).map(([, p]) => p);
+      const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+      const after = Math.hypot(point.x - other.x, point.y - other.y);
+      if (before > 0) {
+        setView(v => v && zoomAt(v, after / before, (point.x + other.x) / 2, (point.y + other.y) / 2));
+      }
+      pointers.set(event.pointerId, point);
+      return;
+    }
+
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (!drag.dragging && Math.hypot(point.x - drag.x, point.y - drag.y) < DRAG_THRESHOLD) return;
+    if (!drag.dragging) {
+      drag.dragging = true;
+      event.currentTarget.setPointerCapture(event.pointerId);
+    }
+    setView(v => v && { ...v, x: v.x + point.x - previous.x, y: v.y + point.y - previous.y });
+    pointers.set(event.pointerId, point);
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    pointersRef.current.delete(event.pointerId);
+    if (pointersRef.current.size === 0) {
+      dragRef.current = null;
+    }
+  };
+
+  const handleDoubleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (!panEnabled) return;
+    const { x, y } = toViewport(event);
+    setView(v => v && zoomAt(v, 2, x, y));
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2 mb-2 text-sm">
+        <span className="text-gray-600">View:</span>
+        {FIT_MODES.map(({ mode, label, title }) => (
+          <button key={mode} onClick={() => applyFit(mode)} className={buttonClass(fitMode === mode)} title={title}>
+            {label}
+          </button>
+        ))}
+        <span className="text-gray-500 w-14 text-right">{view ? `${Math.round(view.scale * 100)}%` : ''}</span>
+        <button onClick={() => setShowLoupe(!showLoupe)} className={buttonClass(showLoupe)} title="Magnifier loupe">
+          🔍
+        </button>
+        <label className="flex items-center gap-1 text-gray-600" title="Keep zoom level and position when changing images">
+          <input type="checkbox" checked={keepView} onChange={(e) => setKeepView(e.target.checked)} />
+          Keep zoom
+        </label>
+      </div>
+      <div
+        ref={containerRef}
+        className={`relative h-[70vh] overflow-hidden bg-gray-50 rounded touch-none select-none ${panEnabled ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={() => setLoupePoint(null)}
+        onDoubleClick={handleDoubleClick}
+      >
+        <div
+          className="absolute left-0 top-0"
+          style={view && image
+            ? {
+                width: image.width,
+                height: image.height,
+                transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+                transformOrigin: '0 0',
+              }
+            : { width: '100%', height: '100%' }}
+        >
+          <FigureImage
+            itemKey={itemKey}
+            file={file}
+            alt={itemKey}
+            draggable={false}
+            className="block w-full h-full"
+            onLoad={handleLoad}
+          />
+          {children?.(view?.scale ?? 1)}
+        </div>
+        {showLoupe && loupePoint && view && image && (
+          <div
+            className="absolute rounded-full border-2 border-gray-700 shadow-lg pointer-events-none bg-white bg-no-repeat"
+            style={{
+              width: LOUPE_SIZE,
+              height: LOUPE_SIZE,
+              left: loupePoint.x - LOUPE_SIZE / 2,
+              top: loupePoint.y - LOUPE_SIZE / 2,
+              backgroundImage: `url(${image.src})`,
+              backgroundSize: `${image.width * view.scale * LOUPE_FACTOR}px ${image.height * view.scale * LOUPE_FACTOR}px`,
+              backgroundPosition: `${LOUPE_SIZE / 2 - (loupePoint.x - view.x) * LOUPE_FACTOR}px ${LOUPE_SIZE / 2 - (loupePoint.y - view.y) * LOUPE_FACTOR}px`,
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+import type { Attribute, ImageEntry } from '@/lib/attributes';
+import { formatCsv } from '@/lib/csv';
+
+// Merging results from several reviewers and measuring how much they agree
+
+// Name under which the labels of the current session take part in comparisons
+export const SESSION_REVIEWER = 'This session';
+
+export interface ReviewerResults {
+  reviewer: string;
+  choices: Map<string, ImageEntry>;
+}
+
+// Votes of every reviewer who set a value for the attribute, keyed by reviewer
+export const collectVotes = (reviews: ReviewerResults[], image: string, attributeName: string) => {
+  const votes = new Map<string, string>();
+  for (const { reviewer, choices } of reviews) {
+    const value = choices.get(image)?.values[attributeName];
+    if (value) {
+      votes.set(reviewer, value);
+    }
+  }
+  return votes;
+};
+
+// Images where reviewers chose different values for at least one attribute
+export const findDisagreements = (reviews: ReviewerResults[], images: string[], attributes: Attribute[]) =>
+  new Set(images.filter(image =>
+    attributes.some(attribute => new Set(collectVotes(reviews, image, attribute.name).values()).size > 1)
+  ));
+
+// Majority value, or '' when the top values are tied
+export const consensusValue = (votes: Map<string, string>) => {
+  const counts = new Map<string, number>();
+  votes.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  const ranked = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0 || (ranked.length > 1 && ranked[0][1] === ranked[1][1])) {
+    return '';
+  }
+  return ranked[0][0];
+};
+
+// Cohen's kappa over images both reviewers labeled; null when it is undefined
+export const cohensKappa = (a: ReviewerResults, b: ReviewerResults, attributeName: string) => {
+  const pairs: [string, string][] = [];
+  a.choices.forEach((entry, image) => {
+    const left = entry.values[attributeName];
+    const right = b.choices.get(image)?.values[attributeName];
+    if (left && right) {
+      pairs.push([left, right]);
+    }
+  });
+  if (pairs.length === 0) return null;
+
+  const observed = pairs.filter(([left, right]) => left === right).length / pairs.length;
+  const leftCounts = new Map<string, number>();
+  const rightCounts = new Map<string, number>();
+  pairs.forEach(([left, right]) => {
+    leftCounts.set(left, (leftCounts.get(left) ?? 0) + 1);
+    rightCounts.set(right, (rightCounts.get(right) ?? 0) + 1);
+  });
+  let expected = 0;
+  leftCounts.forEach((count, value) => {
+    expected += (count / pairs.length) * ((rightCounts.get(value) ?? 0) / pairs.length);
+  });
+  return expected === 1 ? null : (observed - expected) / (1 - expected);
+};
+
+// Fleiss' kappa over images labeled by every reviewer; null when it is undefined
+export const fleissKappa = (reviews: ReviewerResults[], images: string[], attributeName: string) => {
+  const raters = reviews.length;
+  if (raters < 2) return null;
+
+  const rated = images
+    .map(image => collectVotes(reviews, image, attributeName))
+    .filter(votes => votes.size === raters);
+  if (rated.length === 0) return null;
+
+  const totals = new Map<string, number>();
+  let agreement = 0;
+  for (const votes of rated) {
+    const counts = new Map<string, number>();
+    votes.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    let sum = 0;
+    counts.forEach((count, value) => {
+      sum += count * (count - 1);
+      totals.set(value, (totals.get(value) ?? 0) + count);
+    });
+    agreement += sum / (raters * (raters - 1));
+  }
+
+  const observed = agreement / rated.length;
+  let expected = 0;
+  totals.forEach(count => {
+    expected += (count / (rated.length * raters)) ** 2;
+  });
+  return expected === 1 ? null : (observed - expected) / (1 - expected);
+};
+
+// Rows are reviewer a's values, columns reviewer b's, over images both labeled
+export const confusionMatrix = (a: ReviewerResults, b: ReviewerResults, attributeName: string, values: string[]) => {
+  const matrix = values.map(() => values.map(() => 0));
+  a.choices.forEach((entry, image) => {
+    const row = values.indexOf(entry.values[attributeName] ?? '');
+    const column = values.indexOf(b.choices.get(image)?.values[attributeName] ?? '');
+    if (row !== -1 && column !== -1) {
+      matrix[row][column]++;
+    }
+  });
+  return matrix;
+};
+
+// One column per reviewer and attribute, followed by the consensus for each attribute
+export const formatMergedCsv = (reviews: ReviewerResults[], images: string[], attributes: Attribute[]) => {
+  const consensusColumn = (attribute: Attribute) => (attributes.length === 1 ? 'Consensus' : `${attribute.name} Consensus`);
+  const header = [
+    'Image',
+    ...attributes.flatMap(attribute => reviews.map(({ reviewer }) => `${attribute.name} (${reviewer})`)),
+    ...reviews.map(({ reviewer }) => `Comment (${reviewer})`),
+    ...attributes.map(consensusColumn),
+  ];
+
+  const rows = images
+    .filter(image => reviews.some(({ choices }) => choices.has(image)))
+    .map(image => [
+      image,
+      ...attributes.flatMap(attribute => reviews.map(({ choices }) => choices.get(image)?.values[attribute.name] ?? '')),
+      ...reviews.map(({ choices }) => choices.get(image)?.comment ?? ''),
+      ...attributes.map(attribute => consensusValue(collectVotes(reviews, image, attribute.name))),
+    ]);
+
+  return formatCsv(header, rows);
+};
+
+export const formatKappa = (kappa: number | null) => (kappa === null ? 'n/a' : kappa.toFixed(3));
@@ -0,0 +1,117 @@
+// Labels are grouped into named attributes; each figure holds one value per attribute
+
+export interface Label {
+  key: string;
+  value: string;
+  // Name of the follow-up question asked after choosing this label
+  followUp?: string;
+}
+
+export interface FollowUpOption {
+  key: string;
+  value: string;
+  // Name of the next question, if answering this way needs more detail
+  next?: string;
+}
+
+// 'choice' asks for one of the options and is stored (and exported) under the question name;
+// 'comment' requires the figure's comment to be filled in and ends the branch
+export interface FollowUpQuestion {
+  name: string;
+  kind: 'choice' | 'comment';
+  options: FollowUpOption[];
+}
+
+export interface Attribute {
+  name: string;
+  required: boolean;
+  labels: Label[];
+  questions?: FollowUpQuestion[];
+}
+
+export interface ImageEntry {
+  values: Record<string, string>;
+  comment?: string;
+}
+
+export const DEFAULT_ATTRIBUTES: Attribute[] = [
+  {
+    name: 'Choice',
+    required: true,
+    labels: [
+      { key: 'y', value: 'Y' },
+      { key: 'n', value: 'N' },
+    ],
+  },
+];
+
+export const findLabelByKey = (attributes: Attribute[], key: string) => {
+  for (const attribute of attributes) {
+    const label = attribute.labels.find(l => l.key.toLowerCase() === key.toLowerCase());
+    if (label) {
+      return { attribute, label };
+    }
+  }
+  return null;
+};
+
+// Questions reached from the chosen label, in order, paired with the answer given so far
+export const followUpPath = (attribute: Attribute, entry: ImageEntry | undefined) => {
+  const path: { question: FollowUpQuestion; answered: boolean }[] = [];
+  let name = attribute.labels.find(label => label.value === entry?.values[attribute.name])?.followUp;
+  // Validation rules out cycles; the length check only guards against unvalidated data
+  while (name && path.length <= (attribute.questions?.length ?? 0)) {
+    const question = attribute.questions?.find(q => q.name === name);
+    if (!question) break;
+    if (question.kind === 'comment') {
+      path.push({ question, answered: !!entry?.comment?.trim() });
+      break;
+    }
+    const option = question.options.find(o => o.value === entry?.values[question.name]);
+    path.push({ question, answered: !!option });
+    name = option?.next;
+  }
+  return path;
+};
+
+// The first follow-up question still waiting for an answer, if any
+export const findPendingFollowUp = (attributes: Attribute[], entry: ImageEntry | undefined) => {
+  for (const attribute of attributes) {
+    const pending = followUpPath(attribute, entry).find(step => !step.answered);
+    if (pending) return pending.question;
+  }
+  return null;
+};
+
+// Drop answers to questions that are no longer reached, e.g. after changing N to Y
+export const pruneFollowUps = (attributes: Attribute[], entry: ImageEntry): ImageEntry => {
+  const values = { ...entry.values };
+  attributes.forEach(attribute => {
+    const reached = new Set(followUpPath(attribute, entry).map(step => step.question.name));
+    attribute.questions?.forEach(question => {
+      if (!reached.has(question.name)) delete values[question.name];
+    });
+  });
+  return { ...entry, values };
+};
+
+// Choice questions become CSV columns after the attribute columns
+export const followUpColumns = (attributes: Attribute[]) =>
+  attributes.flatMap(attribute => (attribute.questions ?? []).filter(q => q.kind === 'choice').map(q => q.name));
+
+export const hasAnyValue = (entry: ImageEntry | undefined) =>
+  !!entry && Object.values(entry.values).some(Boolean);
+
+// An entry is complete once every required attribute has a value (or any value when none are required)
+// and every follow-up question those values lead to is answered
+export const isEntryComplete = (attributes: Attribute[], entry: ImageEntry | undefined) => {
+  if (!entry || findPendingFollowUp(attributes, entry)) return false;
+  const required = attributes.filter(attribute => attribute.required);
+  if (required.length === 0) {
+    return hasAnyValue(entry);
+  }
+  return required.every(attribute => Boolean(entry.values[attribute.name]));
+};
+
+export const getLabelIndex = (attribute: Attribute | undefined, value: string) =>
+  attribute ? attribute.labels.findIndex(label => label.value === value) : -1;
@@ -0,0 +1,92 @@
+import { splitPath } from '@/lib/directory';
+import { renderFigure } from '@/lib/formats';
+import { drawToImageData, fitSize, imageDataToBlob, loadImageElement } from '@/lib/pixels';
+
+// Comparison of figures against a reference directory (e.g. output of the previous plotting code)
+
+export type CompareMode = 'off' | 'side-by-side' | 'overlay' | 'difference';
+
+export interface ReferenceSet {
+  name: string;
+  files: Map<string, File>;
+}
+
+// Scores are computed on a downscaled copy; the heatmap is rendered larger for display
+const SCORE_SIZE = 256;
+const HEATMAP_SIZE = 1024;
+
+// Pair by relative path, falling back to the file name when it is unique in the reference directory.
+// Figures sorted into label folders are paired by the path they had before.
+export const pairReferenceFigures = (
+  images: string[],
+  referenceFiles: Map<string, File>,
+  originalKeys: Map<string, string> = new Map(),
+) => {
+  const byName = new Map<string, string | null>();
+  for (const key of referenceFiles.keys()) {
+    const { name } = splitPath(key);
+    byName.set(name, byName.has(name) ? null : key);
+  }
+
+  const pairs = new Map<string, string>();
+  for (const image of images) {
+    const key = originalKeys.get(image) ?? image;
+    const match = referenceFiles.has(key) ? key : byName.get(splitPath(key).name);
+    if (match) {
+      pairs.set(image, match);
+    }
+  }
+  return pairs;
+};
+
+const compareImageData = (current: ImageData, reference: ImageData, withHeatmap: boolean) => {
+  const heatmap = withHeatmap ? new ImageData(current.width, current.height) : null;
+  let total = 0;
+
+  for (let i = 0; i < current.data.length; i += 4) {
+    const difference = (
+      Math.abs(current.data[i] - reference.data[i]) +
+      Math.abs(current.data[i + 1] - reference.data[i + 1]) +
+      Math.abs(current.data[i + 2] - reference.data[i + 2])
+    ) / (3 * 255);
+    total += difference;
+
+    if (heatmap) {
+      // Unchanged pixels show a faded copy of the figure; changes go from red to yellow
+      const faded = 255 - (255 - (current.data[i] + current.data[i + 1] + current.data[i + 2]) / 3) * 0.25;
+      const heat = Math.min(difference * 4, 1);
+      heatmap.data[i] = faded + (255 - faded) * heat;
+      heatmap.data[i + 1] = faded * (1 - heat) + 255 * Math.max(heat * 2 - 1, 0);
+      heatmap.data[i + 2] = faded * (1 - heat);
+      heatmap.data[i + 3] = 255;
+    }
+  }
+
+  return { score: total / (current.width * current.height), heatmap };
+};
+
+// Mean absolute RGB difference (0–1), with the reference scaled to the current figure's size
+export const computeDifference = async (
+  current: { key: string; file: File },
+  reference: { key: string; file: File },
+  { withHeatmap = false } = {},
+) => {
+  const [currentImage, referenceImage] = await Promise.all([
+    renderFigure(current.key, current.file).then(loadImageElement),
+    renderFigure(reference.key, reference.file).then(loadImageElement),
+  ]);
+
+  const { width, height } = fitSize(
+    currentImage.naturalWidth || SCORE_SIZE,
+    currentImage.naturalHeight || SCORE_SIZE,
+    withHeatmap ? HEATMAP_SIZE : SCORE_SIZE,
+  );
+  const { score, heatmap } = compareImageData(
+    drawToImageData(currentImage, width, height),
+    drawToImageData(referenceImage, width, height),
+    withHeatmap,
+  );
+  return { score, heatmap: heatmap ? await imageDataToBlob(heatmap) : null };
+};
+
+export const formatDifference = (score: number) => `${(score * 100).toFixed(2)}%`;
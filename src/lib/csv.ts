@@ -0,0 +1,129 @@
+// RFC 4180 CSV reading and writing
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvRecord {
+  // 1-based line number where the record starts, for error messages
+  line: number;
+  values: string[];
+}
+
+export interface CsvTable {
+  header: string[];
+  records: CsvRecord[];
+  errors: CsvParseError[];
+}
+
+const escapeField = (value: string) =>
+  /[",\r\n]/.test(value) || /^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+export const formatCsv = (header: string[], rows: string[][]) =>
+  [header, ...rows]
+    .map(row => row.map(escapeField).join(','))
+    .join('\r\n') + '\r\n';
+
+// Excel in some locales writes semicolon-separated files
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r|\n|$/));
+  return !firstLine.includes(',') && firstLine.includes(';') ? ';' : ',';
+};
+
+// Tolerant parser: strips a BOM, accepts CRLF/LF/CR, skips blank lines and reports malformed records by line
+export const parseCsv = (input: string): CsvTable => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const delimiter = detectDelimiter(text);
+  const rows: CsvRecord[] = [];
+  const errors: CsvParseError[] = [];
+
+  let line = 1;
+  let recordLine = 1;
+  let field = '';
+  let values: string[] = [];
+  let inQuotes = false;
+  let fieldWasQuoted = false;
+
+  const endField = () => {
+    values.push(fieldWasQuoted ? field : field.trim());
+    field = '';
+    fieldWasQuoted = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    if (values.length > 1 || values[0] !== '') {
+      rows.push({ line: recordLine, values });
+    }
+    values = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) {
+          line++;
+        }
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field.trim() === '' && !fieldWasQuoted) {
+        inQuotes = true;
+        fieldWasQuoted = true;
+        field = '';
+      } else {
+        errors.push({ line, message: 'Unexpected quote inside an unquoted field' });
+        field += char;
+      }
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRecord();
+      line++;
+      recordLine = line;
+    } else if (fieldWasQuoted) {
+      if (char.trim() !== '') {
+        errors.push({ line, message: 'Unexpected text after a closing quote' });
+        field += char;
+      }
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    errors.push({ line: recordLine, message: 'Unterminated quoted field' });
+  }
+  endRecord();
+
+  const [headerRecord, ...records] = rows;
+  return {
+    header: headerRecord ? headerRecord.values : [],
+    records,
+    errors,
+  };
+};
+
+// Case-insensitive lookup of a column by any of its accepted names; -1 when absent
+export const findColumn = (header: string[], ...names: string[]) => {
+  const wanted = names.map(name => name.toLowerCase());
+  return header.findIndex(column => wanted.includes(column.trim().toLowerCase()));
+};
@@ -0,0 +1,60 @@
+import { isSupportedFigure } from '@/lib/formats';
+
+export interface ScannedDirectory {
+  files: Map<string, File>;
+  paths: string[];
+}
+
+// Recursively walk a directory handle, keying files by their path relative to the root
+export const scanDirectoryHandle = async (
+  dirHandle: FileSystemDirectoryHandle,
+  accept: (name: string) => boolean = isSupportedFigure,
+): Promise<ScannedDirectory> => {
+  const files = new Map<string, File>();
+
+  const walk = async (handle: FileSystemDirectoryHandle, prefix: string) => {
+    // @ts-expect-error - FileSystemDirectoryHandle async iterator
+    for await (const [name, child] of handle) {
+      const path = prefix ? `${prefix}/${name}` : name;
+      if (child.kind === 'directory') {
+        await walk(child, path);
+      } else if (child.kind === 'file' && accept(name)) {
+        files.set(path, await child.getFile());
+      }
+    }
+  };
+
+  await walk(dirHandle, '');
+  return { files, paths: Array.from(files.keys()).sort() };
+};
+
+// Same as scanDirectoryHandle, for the <input webkitdirectory> fallback
+export const scanFileList = (
+  fileList: FileList,
+  accept: (name: string) => boolean = isSupportedFigure,
+): ScannedDirectory => {
+  const files = new Map<string, File>();
+
+  Array.from(fileList).forEach(file => {
+    const relativePath = (file as File & { webkitRelativePath: string }).webkitRelativePath;
+    // Drop the root directory name so keys match scanDirectoryHandle
+    const path = relativePath.split('/').slice(1).join('/') || file.name;
+    const fileName = path.split('/').pop();
+    if (fileName && accept(fileName)) {
+      files.set(path, file);
+    }
+  });
+
+  return { files, paths: Array.from(files.keys()).sort() };
+};
+
+export const splitPath = (path: string) => {
+  const index = path.lastIndexOf('/');
+  return index === -1
+    ? { dir: '', name: path }
+    : { dir: path.slice(0, index), name: path.slice(index + 1) };
+};
+
+// Image column values are relative paths; accept Windows separators and a leading "./"
+export const normalizeImagePath = (path: string) =>
+  path.replace(/\\/g, '/').replace(/^\.\//, '');
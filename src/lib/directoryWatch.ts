@@ -0,0 +1,68 @@
+// Comparing a fresh scan of the directory with the figures already loaded
+
+export interface ScanChanges {
+  added: string[];
+  // Same path, different content
+  changed: string[];
+  removed: string[];
+  // Same path and content as when labeled, but a new size or timestamp (e.g. the file was saved again unchanged)
+  touched: string[];
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const hashFile = async (file: Blob) => toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+
+// Size, timestamp and content hash of a figure's file when it was labeled; a later scan finding others means it was
+// rewritten. The hash is filled in in the background after labeling, so it may be missing for a while.
+export interface FileFingerprint {
+  size: number;
+  lastModified: number;
+  hash?: string;
+}
+
+export const fileFingerprint = ({ size, lastModified }: File): FileFingerprint => ({ size, lastModified });
+
+export const sameFingerprint = (a: FileFingerprint, b: FileFingerprint) =>
+  a.size === b.size && a.lastModified === b.lastModified;
+
+// A file with a new size or timestamp is only unchanged if it hashes to what was recorded when it was labeled.
+// The earlier File can't be read once the file on disk is replaced, so figures without a recorded hash count as changed.
+export const diffScan = async (
+  previous: Map<string, File>,
+  next: Map<string, File>,
+  recorded: Map<string, FileFingerprint>
+): Promise<ScanChanges> => {
+  // Pages of one document share a File; hash it once
+  const hashes = new Map<File, Promise<string | undefined>>();
+  const hash = (file: File) => {
+    if (!hashes.has(file)) hashes.set(file, hashFile(file).catch(() => undefined));
+    return hashes.get(file)!;
+  };
+
+  const changed: string[] = [];
+  const touched: string[] = [];
+  for (const [key, file] of next) {
+    const before = previous.get(key);
+    if (!before || sameFingerprint(fileFingerprint(before), fileFingerprint(file))) continue;
+    const expected = recorded.get(key)?.hash;
+    if (expected && (await hash(file)) === expected) {
+      touched.push(key);
+    } else {
+      changed.push(key);
+    }
+  }
+  return {
+    added: Array.from(next.keys()).filter(key => !previous.has(key)),
+    changed,
+    removed: Array.from(previous.keys()).filter(key => !next.has(key)),
+    touched,
+  };
+};
+
+export const hasScanChanges = ({ added, changed, removed, touched }: ScanChanges) =>
+  added.length > 0 || changed.length > 0 || removed.length > 0 || touched.length > 0;
+
+// Browsers with FileSystemObserver report changes as they happen; others are polled
+export const supportsFileSystemObserver = () => typeof window !== 'undefined' && 'FileSystemObserver' in window;
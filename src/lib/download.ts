@@ -0,0 +1,38 @@
+// Save generated content through a temporary download link
+export const downloadFile = (filename: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Let the user pick where to save when the File System Access API is available, otherwise download
+export const saveTextFile = async (
+  suggestedName: string,
+  content: string,
+  type: { description: string; mime: string; extension: string },
+) => {
+  if (!('showSaveFilePicker' in window)) {
+    downloadFile(suggestedName, content, type.mime);
+    return true;
+  }
+  try {
+    // @ts-expect-error - showSaveFilePicker not in TypeScript definitions
+    const fileHandle = await window.showSaveFilePicker({
+      suggestedName,
+      types: [{ description: type.description, accept: { [type.mime]: [type.extension] } }],
+    });
+    const writable = await fileHandle.createWritable();
+    await writable.write(content);
+    await writable.close();
+    return true;
+  } catch (error) {
+    // User cancelled the dialog
+    if (error instanceof Error && error.name === 'AbortError') {
+      return false;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,94 @@
+import type { Attribute, ImageEntry } from '@/lib/attributes';
+import type { ReviewPass } from '@/lib/reviewPasses';
+
+// JSON and JSONL exports of the results, with session metadata for downstream tooling
+
+export type ExportFormat = 'csv' | 'json' | 'jsonl';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON (one document)',
+  jsonl: 'JSONL (one image per line)',
+};
+
+export interface ExportMetadata {
+  directory: string;
+  sessionStartedAt: string;
+  exportedAt: string;
+  profile: string;
+  attributes: Attribute[];
+  reviewer: string;
+}
+
+export interface ExportRecord {
+  image: string;
+  values: Record<string, string>;
+  comment: string | null;
+  fileSize: number | null;
+  width: number | null;
+  height: number | null;
+  checks: string[];
+  difference: number | null;
+  // Values from before each review pass that included the image
+  earlierPasses: { pass: string; values: Record<string, string>; comment: string | null }[];
+}
+
+export interface ExportSource {
+  imageFiles: Map<string, File>;
+  dimensions: Map<string, { width: number; height: number }>;
+  checks: Map<string, string[]>;
+  differenceScores: Map<string, number>;
+  passes: ReviewPass[];
+}
+
+const REVIEWER_STORAGE_KEY = 'figure-checker:reviewer';
+
+export const buildExportRecords = (imageChoices: Map<string, ImageEntry>, source: ExportSource): ExportRecord[] =>
+  Array.from(imageChoices, ([image, entry]) => ({
+    image,
+    values: entry.values,
+    comment: entry.comment || null,
+    fileSize: source.imageFiles.get(image)?.size ?? null,
+    width: source.dimensions.get(image)?.width ?? null,
+    height: source.dimensions.get(image)?.height ?? null,
+    checks: source.checks.get(image) ?? [],
+    difference: source.differenceScores.get(image) ?? null,
+    earlierPasses: source.passes
+      .filter(pass => pass.images.includes(image))
+      .map(pass => ({
+        pass: pass.name,
+        values: pass.original.get(image)?.values ?? {},
+        comment: pass.original.get(image)?.comment || null,
+      })),
+  }));
+
+export const formatResultsJson = (metadata: ExportMetadata, records: ExportRecord[]) =>
+  JSON.stringify({ format: 'figure-checker-results', version: 1, ...metadata, images: records }, null, 2);
+
+// Every line stands alone, so it carries the session fields a consumer needs to group lines
+export const formatResultsJsonl = (metadata: ExportMetadata, records: ExportRecord[]) =>
+  records
+    .map(record => JSON.stringify({
+      ...record,
+      directory: metadata.directory,
+      reviewer: metadata.reviewer,
+      profile: metadata.profile,
+      sessionStartedAt: metadata.sessionStartedAt,
+      exportedAt: metadata.exportedAt,
+    }))
+    .join('\n') + '\n';
+
+export const exportFileName = (csvFileName: string, format: ExportFormat) =>
+  csvFileName.replace(/\.csv$/i, '') + `.${format}`;
+
+export const loadReviewerName = () => {
+  try {
+    return localStorage.getItem(REVIEWER_STORAGE_KEY) ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const saveReviewerName = (name: string) => {
+  localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+};
@@ -0,0 +1,205 @@
+import type { ScannedDirectory } from '@/lib/directory';
+
+export interface FigureFormat {
+  name: string;
+  extensions: string[];
+  // Split one file into several reviewable items (e.g. PDF pages). Defaults to a single item.
+  countPages?: (file: File) => Promise<number>;
+  // Produce an image an <img> element can display; object URLs are handled by objectUrls
+  render: (file: File, page: number) => Promise<Blob>;
+}
+
+const PAGE_SUFFIX = /#p(\d+)$/;
+
+// Item keys are relative paths, with "#pN" appended for pages of multi-page documents
+export const parseItemKey = (key: string) => {
+  const match = key.match(PAGE_SUFFIX);
+  return match
+    ? { path: key.slice(0, match.index), page: Number(match[1]) }
+    : { path: key, page: 1 };
+};
+
+export const pageItemKey = (path: string, page: number) => `${path}#p${page}`;
+
+const getExtension = (name: string) => {
+  const base = parseItemKey(name).path;
+  const index = base.lastIndexOf('.');
+  return index === -1 ? '' : base.slice(index + 1).toLowerCase();
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode canvas'));
+      }
+    }, 'image/png');
+  });
+
+const nativeFormat = (name: string, extensions: string[], mimeType?: string): FigureFormat => ({
+  name,
+  extensions,
+  render: async (file) => {
+    // Files read from a directory handle can come without a MIME type, which breaks SVG in <img>
+    if (mimeType && file.type !== mimeType) {
+      return new Blob([file], { type: mimeType });
+    }
+    return file;
+  },
+});
+
+const tiffFormat: FigureFormat = {
+  name: 'TIFF',
+  extensions: ['tif', 'tiff'],
+  render: async (file) => {
+    const UTIF = await import('utif');
+    const buffer = await file.arrayBuffer();
+    const [ifd] = UTIF.decode(buffer);
+    if (!ifd) {
+      throw new Error('TIFF contains no images');
+    }
+    UTIF.decodeImage(buffer, ifd);
+    const rgba = UTIF.toRGBA8(ifd);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = ifd.width;
+    canvas.height = ifd.height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D context unavailable');
+    }
+    context.putImageData(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height), 0, 0);
+    return canvasToBlob(canvas);
+  },
+};
+
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  return pdfjs;
+};
+
+const openPdf = async (file: File) => {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+// Render PDF pages at a fixed scale so small figures stay legible when zoomed
+const PDF_RENDER_SCALE = 2;
+
+const pdfFormat: FigureFormat = {
+  name: 'PDF',
+  extensions: ['pdf'],
+  countPages: async (file) => {
+    const pdf = await openPdf(file);
+    try {
+      return pdf.numPages;
+    } finally {
+      await pdf.destroy();
+    }
+  },
+  render: async (file, page) => {
+    const pdf = await openPdf(file);
+    try {
+      const pdfPage = await pdf.getPage(page);
+      const viewport = pdfPage.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await pdfPage.render({ canvas, viewport }).promise;
+      return await canvasToBlob(canvas);
+    } finally {
+      await pdf.destroy();
+    }
+  },
+};
+
+const formats: FigureFormat[] = [
+  nativeFormat('JPEG', ['jpg', 'jpeg']),
+  nativeFormat('PNG', ['png']),
+  nativeFormat('GIF', ['gif']),
+  nativeFormat('WebP', ['webp'], 'image/webp'),
+  nativeFormat('AVIF', ['avif'], 'image/avif'),
+  nativeFormat('SVG', ['svg'], 'image/svg+xml'),
+  tiffFormat,
+  pdfFormat,
+];
+
+// Register an additional format, or replace the handler for an existing extension
+export const registerFigureFormat = (format: FigureFormat) => {
+  const existing = formats.findIndex(f => f.extensions.some(ext => format.extensions.includes(ext)));
+  if (existing !== -1) {
+    formats.splice(existing, 1);
+  }
+  formats.push(format);
+};
+
+export const getFigureFormat = (name: string) => {
+  const extension = getExtension(name);
+  return formats.find(format => format.extensions.includes(extension));
+};
+
+export const isSupportedFigure = (name: string) => getFigureFormat(name) !== undefined;
+
+export const renderFigure = async (key: string, file: File) => {
+  const format = getFigureFormat(key);
+  if (!format) {
+    throw new Error(`Unsupported figure format: ${key}`);
+  }
+  return format.render(file, parseItemKey(key).page);
+};
+
+// Expand multi-page files into one item per page, keyed as "file.pdf#p3".
+// Documents whose size and timestamp match an item in `previous` keep its page count instead of being parsed again.
+export const expandFigureItems = async (
+  { files }: ScannedDirectory,
+  previous: Map<string, File> = new Map()
+): Promise<ScannedDirectory> => {
+  const knownPages = new Map<string, { file: File; count: number }>();
+  for (const [key, file] of previous) {
+    const { path, page } = parseItemKey(key);
+    const known = knownPages.get(path);
+    knownPages.set(path, { file, count: Math.max(known?.count ?? 0, page) });
+  }
+
+  const items = new Map<string, File>();
+
+  for (const [path, file] of files) {
+    const format = getFigureFormat(path);
+    if (!format?.countPages) {
+      items.set(path, file);
+      continue;
+    }
+
+    const known = knownPages.get(path);
+    let pageCount = 1;
+    if (known && known.file.size === file.size && known.file.lastModified === file.lastModified) {
+      pageCount = known.count;
+    } else {
+      try {
+        pageCount = await format.countPages(file);
+      } catch (error) {
+        console.error(`Failed to read pages of ${path}:`, error);
+      }
+    }
+    for (let page = 1; page <= pageCount; page++) {
+      items.set(pageItemKey(path, page), file);
+    }
+  }
+
+  return { files: items, paths: Array.from(items.keys()).sort(compareItemKeys) };
+};
+
+// Sort by path, keeping pages of the same document in numeric order
+export const compareItemKeys = (a: string, b: string) => {
+  const left = parseItemKey(a);
+  const right = parseItemKey(b);
+  if (left.path !== right.path) {
+    return left.path < right.path ? -1 : 1;
+  }
+  return left.page - right.page;
+};
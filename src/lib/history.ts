@@ -0,0 +1,69 @@
+import type { ImageEntry } from '@/lib/attributes';
+
+// Undo/redo history of labeling actions, stored as before/after snapshots.
+// Choice maps are never mutated in place, so snapshots can share them.
+
+export interface HistorySnapshot {
+  choices: Map<string, ImageEntry>;
+  currentImageIndex: number;
+}
+
+export interface HistoryEntry {
+  id: number;
+  description: string;
+  timestamp: number;
+  // Consecutive entries with the same key (e.g. typing in one comment field) are merged
+  coalesceKey?: string;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
+
+export interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const HISTORY_LIMIT = 200;
+
+let nextEntryId = 1;
+
+export const pushHistory = (
+  state: HistoryState,
+  entry: Omit<HistoryEntry, 'id' | 'timestamp'>,
+): HistoryState => {
+  const last = state.past[state.past.length - 1];
+  if (entry.coalesceKey && last?.coalesceKey === entry.coalesceKey && state.future.length === 0) {
+    return {
+      past: [...state.past.slice(0, -1), { ...last, after: entry.after, timestamp: Date.now() }],
+      future: [],
+    };
+  }
+
+  return {
+    past: [...state.past, { ...entry, id: nextEntryId++, timestamp: Date.now() }].slice(-HISTORY_LIMIT),
+    future: [],
+  };
+};
+
+// Returns the snapshot to restore along with the new state, or null when there is nothing to undo
+export const undoHistory = (state: HistoryState) => {
+  const entry = state.past[state.past.length - 1];
+  if (!entry) return null;
+  return {
+    snapshot: entry.before,
+    entry,
+    state: { past: state.past.slice(0, -1), future: [entry, ...state.future] },
+  };
+};
+
+export const redoHistory = (state: HistoryState) => {
+  const [entry, ...future] = state.future;
+  if (!entry) return null;
+  return {
+    snapshot: entry.after,
+    entry,
+    state: { past: [...state.past, entry], future },
+  };
+};
@@ -0,0 +1,382 @@
+// Metadata read straight from the file bytes, without decoding the image
+
+export interface MetadataEntry {
+  // Where the value came from, e.g. "PNG", "EXIF", "XMP", "SVG"
+  group: string;
+  key: string;
+  value: string;
+}
+
+export interface FigureMetadata {
+  entries: MetadataEntry[];
+  // Resolution recorded in the file, in dots per inch
+  dpi: number | null;
+}
+
+// Field identifier used for selecting metadata as CSV columns
+export const metadataFieldId = (entry: Pick<MetadataEntry, 'group' | 'key'>) => `${entry.group}:${entry.key}`;
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const bytesAt = (view: DataView, offset: number, length: number) =>
+  new Uint8Array(view.buffer, view.byteOffset + offset, Math.max(Math.min(length, view.byteLength - offset), 0));
+
+const inflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// ----- EXIF (TIFF structure, used by JPEG APP1, PNG eXIf and TIFF files) -----
+
+const EXIF_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x011a: 'XResolution',
+  0x011b: 'YResolution',
+  0x0128: 'ResolutionUnit',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+  0x9003: 'DateTimeOriginal',
+  0x9286: 'UserComment',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+};
+const EXIF_IFD_POINTER = 0x8769;
+const XMP_TAG = 0x02bc;
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const readTiffValue = (view: DataView, little: boolean, type: number, count: number, offset: number) => {
+  switch (type) {
+    case 2:
+      return latin1.decode(bytesAt(view, offset, count)).replace(/\0+$/, '');
+    case 3:
+      return view.getUint16(offset, little);
+    case 4:
+    case 9:
+      return type === 4 ? view.getUint32(offset, little) : view.getInt32(offset, little);
+    case 5:
+    case 10: {
+      const numerator = type === 5 ? view.getUint32(offset, little) : view.getInt32(offset, little);
+      const denominator = type === 5 ? view.getUint32(offset + 4, little) : view.getInt32(offset + 4, little);
+      return denominator === 0 ? 0 : numerator / denominator;
+    }
+    case 7:
+      // UserComment starts with an 8-byte character code
+      return utf8.decode(bytesAt(view, offset, count)).replace(/^(ASCII|UNICODE|JIS)?\0*/, '').replace(/\0+$/, '');
+    default:
+      return view.getUint8(offset);
+  }
+};
+
+// Parse a TIFF header at `start`; returns named tags plus the raw XMP packet if present
+const parseTiff = (view: DataView, start: number) => {
+  const tags = new Map<string, string | number>();
+  let xmp: string | null = null;
+  const order = view.getUint16(start);
+  if (order !== 0x4949 && order !== 0x4d4d) return { tags, xmp };
+  const little = order === 0x4949;
+
+  const readIfd = (ifdOffset: number, depth: number) => {
+    const base = start + ifdOffset;
+    if (depth > 1 || base + 2 > view.byteLength) return;
+    const count = view.getUint16(base, little);
+    for (let i = 0; i < count; i++) {
+      const entry = base + 2 + i * 12;
+      if (entry + 12 > view.byteLength) return;
+      const tag = view.getUint16(entry, little);
+      const type = view.getUint16(entry + 2, little);
+      const valueCount = view.getUint32(entry + 4, little);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      const valueOffset = size > 4 ? start + view.getUint32(entry + 8, little) : entry + 8;
+      if (valueOffset + Math.min(size, 8) > view.byteLength) continue;
+
+      if (tag === EXIF_IFD_POINTER) {
+        readIfd(view.getUint32(entry + 8, little), depth + 1);
+      } else if (tag === XMP_TAG) {
+        xmp = utf8.decode(bytesAt(view, valueOffset, valueCount));
+      } else if (EXIF_TAGS[tag]) {
+        tags.set(EXIF_TAGS[tag], readTiffValue(view, little, type, valueCount, valueOffset));
+      }
+    }
+  };
+
+  readIfd(view.getUint32(start + 4, little), 0);
+  return { tags, xmp };
+};
+
+const exifDpi = (tags: Map<string, string | number>) => {
+  const resolution = tags.get('XResolution');
+  if (typeof resolution !== 'number' || resolution <= 0) return null;
+  const unit = tags.get('ResolutionUnit') ?? 2;
+  if (unit === 2) return resolution;
+  if (unit === 3) return resolution * 2.54;
+  return null;
+};
+
+// ----- XMP -----
+
+// Flatten simple properties of rdf:Description (attributes and leaf elements)
+const parseXmp = (packet: string): MetadataEntry[] => {
+  const doc = new DOMParser().parseFromString(packet, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return [];
+
+  const entries: MetadataEntry[] = [];
+  for (const description of Array.from(doc.getElementsByTagNameNS('*', 'Description'))) {
+    for (const attribute of Array.from(description.attributes)) {
+      if (attribute.prefix && attribute.prefix !== 'xmlns' && attribute.prefix !== 'rdf') {
+        entries.push({ group: 'XMP', key: attribute.name, value: attribute.value });
+      }
+    }
+    for (const child of Array.from(description.children)) {
+      const value = Array.from(child.getElementsByTagNameNS('*', 'li')).map(li => li.textContent?.trim() ?? '').join('; ')
+        || child.textContent?.trim() || '';
+      if (value) {
+        entries.push({ group: 'XMP', key: child.tagName, value });
+      }
+    }
+  }
+  return entries;
+};
+
+const exifEntries = (tags: Map<string, string | number>): MetadataEntry[] =>
+  Array.from(tags, ([key, value]) => ({
+    group: 'EXIF',
+    key,
+    value: typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(2) : String(value),
+  }));
+
+// ----- Format readers -----
+
+const readPng = async (view: DataView): Promise<FigureMetadata> => {
+  const entries: MetadataEntry[] = [];
+  let dpi: number | null = null;
+  let offset = 8;
+
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytesAt(view, offset + 4, 4));
+    const data = bytesAt(view, offset + 8, length);
+
+    if (type === 'pHYs' && data.length >= 9) {
+      const pixelsPerUnit = new DataView(data.buffer, data.byteOffset).getUint32(0);
+      // Unit 1 is metres; unit 0 only gives an aspect ratio
+      if (data[8] === 1) dpi = pixelsPerUnit * 0.0254;
+    } else if (type === 'tEXt' || type === 'zTXt') {
+      const separator = data.indexOf(0);
+      const key = latin1.decode(data.subarray(0, separator));
+      const text = type === 'tEXt'
+        ? latin1.decode(data.subarray(separator + 1))
+        : latin1.decode(await inflate(data.subarray(separator + 2)));
+      entries.push({ group: 'PNG', key, value: text });
+    } else if (type === 'iTXt') {
+      const keyEnd = data.indexOf(0);
+      const compressed = data[keyEnd + 1] === 1;
+      const languageEnd = data.indexOf(0, keyEnd + 3);
+      const translatedEnd = data.indexOf(0, languageEnd + 1);
+      const text = data.subarray(translatedEnd + 1);
+      const value = utf8.decode(compressed ? await inflate(text) : text);
+      const key = latin1.decode(data.subarray(0, keyEnd));
+      // Some tools store XMP in an iTXt chunk
+      if (key === 'XML:com.adobe.xmp') {
+        entries.push(...parseXmp(value));
+      } else {
+        entries.push({ group: 'PNG', key, value });
+      }
+    } else if (type === 'eXIf') {
+      const { tags } = parseTiff(new DataView(data.buffer, data.byteOffset, data.byteLength), 0);
+      entries.push(...exifEntries(tags));
+      dpi ??= exifDpi(tags);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+  return { entries, dpi };
+};
+
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+
+const readJpeg = (view: DataView): FigureMetadata => {
+  const entries: MetadataEntry[] = [];
+  let dpi: number | null = null;
+  let offset = 2;
+
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1);
+    const length = view.getUint16(offset + 2);
+    const data = offset + 4;
+
+    // APP0 "JFIF"
+    if (marker === 0xe0 && view.getUint32(data) === 0x4a464946) {
+      const units = view.getUint8(data + 7);
+      const density = view.getUint16(data + 8);
+      if (units === 1) dpi = density;
+      if (units === 2) dpi = density * 2.54;
+    } else if (marker === 0xe1 && view.getUint32(data) === 0x45786966) {
+      // APP1 "Exif\0\0" followed by a TIFF header
+      const { tags } = parseTiff(view, data + 6);
+      entries.push(...exifEntries(tags));
+      dpi = exifDpi(tags) ?? dpi;
+    } else if (marker === 0xe1 && latin1.decode(bytesAt(view, data, XMP_SIGNATURE.length)) === XMP_SIGNATURE) {
+      entries.push(...parseXmp(utf8.decode(bytesAt(view, data + XMP_SIGNATURE.length, length - 2 - XMP_SIGNATURE.length))));
+    } else if (marker === 0xfe) {
+      entries.push({ group: 'JPEG', key: 'Comment', value: utf8.decode(bytesAt(view, data, length - 2)) });
+    }
+    // Start of scan: no more headers
+    if (marker === 0xda) break;
+    offset += 2 + length;
+  }
+  return { entries, dpi };
+};
+
+const readTiff = (view: DataView): FigureMetadata => {
+  const { tags, xmp } = parseTiff(view, 0);
+  return { entries: [...exifEntries(tags), ...(xmp ? parseXmp(xmp) : [])], dpi: exifDpi(tags) };
+};
+
+const readSvg = (text: string): FigureMetadata => {
+  const doc = new DOMParser().parseFromString(text, 'image/svg+xml');
+  const svg = doc.documentElement;
+  if (doc.getElementsByTagName('parsererror').length > 0 || svg.tagName !== 'svg') {
+    return { entries: [], dpi: null };
+  }
+
+  const entries: MetadataEntry[] = [];
+  for (const name of ['width', 'height', 'viewBox']) {
+    const value = svg.getAttribute(name);
+    if (value) entries.push({ group: 'SVG', key: name, value });
+  }
+  for (const name of ['title', 'desc']) {
+    const element = Array.from(svg.children).find(child => child.localName === name);
+    if (element?.textContent?.trim()) entries.push({ group: 'SVG', key: name, value: element.textContent.trim() });
+  }
+
+  for (const metadata of Array.from(svg.getElementsByTagNameNS('*', 'metadata'))) {
+    const rdf = metadata.getElementsByTagNameNS('*', 'RDF')[0];
+    if (rdf) {
+      // Dublin Core and other RDF properties (e.g. written by matplotlib or Inkscape)
+      for (const element of Array.from(rdf.getElementsByTagName('*'))) {
+        const text = element.children.length === 0 ? element.textContent?.trim() : '';
+        const resource = element.getAttributeNS('http://www.w3.org/1999/02/22-rdf-syntax-ns#', 'resource');
+        if (element.prefix !== 'rdf' && (text || resource)) {
+          entries.push({ group: 'SVG', key: element.tagName, value: text || resource || '' });
+        }
+      }
+    } else if (metadata.textContent?.trim()) {
+      entries.push({ group: 'SVG', key: 'metadata', value: metadata.textContent.trim() });
+    }
+  }
+  return { entries, dpi: null };
+};
+
+export const readFigureMetadata = async (file: Blob): Promise<FigureMetadata> => {
+  try {
+    const buffer = await file.arrayBuffer();
+    const view = new DataView(buffer);
+    if (view.byteLength >= 8 && view.getUint32(0) === 0x89504e47) {
+      return await readPng(view);
+    }
+    if (view.byteLength >= 2 && view.getUint16(0) === 0xffd8) {
+      return readJpeg(view);
+    }
+    if (view.byteLength >= 8 && (view.getUint32(0) === 0x49492a00 || view.getUint32(0) === 0x4d4d002a)) {
+      return readTiff(view);
+    }
+    const head = latin1.decode(new Uint8Array(buffer, 0, Math.min(buffer.byteLength, 1024)));
+    if (/<svg[\s>]/i.test(head) || /^\s*<\?xml/.test(head)) {
+      return readSvg(utf8.decode(buffer));
+    }
+  } catch (error) {
+    console.error('Failed to read metadata:', error);
+  }
+  return { entries: [], dpi: null };
+};
+
+// pHYs, JFIF density and EXIF resolution live in the first chunks/segments; this covers typical files
+const HEADER_BYTES = 256 * 1024;
+
+const readPngDpi = (view: DataView) => {
+  let offset = 8;
+  while (offset + 8 <= view.byteLength) {
+    const length = view.getUint32(offset);
+    const type = latin1.decode(bytesAt(view, offset + 4, 4));
+    const data = bytesAt(view, offset + 8, length);
+    if (type === 'pHYs' && data.length >= 9) {
+      // Unit 1 is metres; unit 0 only gives an aspect ratio
+      return data[8] === 1 ? new DataView(data.buffer, data.byteOffset).getUint32(0) * 0.0254 : null;
+    }
+    if (type === 'eXIf') {
+      return exifDpi(parseTiff(new DataView(data.buffer, data.byteOffset, data.byteLength), 0).tags);
+    }
+    if (type === 'IDAT' || type === 'IEND') return null;
+    offset += 12 + length;
+  }
+  return null;
+};
+
+const readJpegDpi = (view: DataView) => {
+  let dpi: number | null = null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength && view.getUint8(offset) === 0xff) {
+    const marker = view.getUint8(offset + 1);
+    const data = offset + 4;
+    // APP0 "JFIF"
+    if (marker === 0xe0 && view.getUint32(data) === 0x4a464946) {
+      const units = view.getUint8(data + 7);
+      const density = view.getUint16(data + 8);
+      if (units === 1) dpi = density;
+      if (units === 2) dpi = density * 2.54;
+    } else if (marker === 0xe1 && view.getUint32(data) === 0x45786966) {
+      return exifDpi(parseTiff(view, data + 6).tags) ?? dpi;
+    }
+    // Start of scan: no more headers
+    if (marker === 0xda) break;
+    offset += 2 + view.getUint16(offset + 2);
+  }
+  return dpi;
+};
+
+// Resolution only, from the start of the file: quality checks read it for every figure,
+// while the full readFigureMetadata is left to the figures actually shown or exported
+export const readDpi = async (file: Blob) => {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+    if (view.byteLength >= 8 && view.getUint32(0) === 0x89504e47) {
+      return readPngDpi(view);
+    }
+    if (view.byteLength >= 2 && view.getUint16(0) === 0xffd8) {
+      return readJpegDpi(view);
+    }
+    if (view.byteLength >= 8 && (view.getUint32(0) === 0x49492a00 || view.getUint32(0) === 0x4d4d002a)) {
+      return exifDpi(parseTiff(view, 0).tags);
+    }
+  } catch {
+    // Headers reaching past the first HEADER_BYTES are treated as giving no resolution
+  }
+  return null;
+};
+
+// Values of one field, joined when a file repeats it (e.g. several PNG "Comment" chunks)
+export const metadataFieldValue = (metadata: FigureMetadata | undefined, fieldId: string) =>
+  (metadata?.entries ?? []).filter(entry => metadataFieldId(entry) === fieldId).map(entry => entry.value).join('; ');
+
+const COLUMNS_STORAGE_KEY = 'figure-checker:metadata-columns';
+
+// Metadata fields exported as extra CSV columns, as "<group>:<key>" identifiers
+export const loadMetadataColumns = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter((column): column is string => typeof column === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveMetadataColumns = (columns: string[]) => {
+  localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columns));
+};
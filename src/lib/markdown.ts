@@ -0,0 +1,104 @@
+// A small Markdown subset for captions: headings, paragraphs, lists, quotes, code and basic inline styles.
+// Parsed into plain data so the UI renders it as React elements, never as raw HTML.
+
+export type MarkdownInline =
+  | { type: 'text' | 'code' | 'strong' | 'em'; text: string }
+  | { type: 'link'; text: string; href: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph' | 'quote'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string }
+  | { type: 'rule' };
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+
+export const parseMarkdown = (source: string): MarkdownBlock[] => {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+
+  const endParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*```/.test(line)) {
+      endParagraph();
+      const code: string[] = [];
+      for (i++; i < lines.length && !/^\s*```/.test(lines[i]); i++) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      endParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      endParagraph();
+      blocks.push({ type: 'rule' });
+    } else if (LIST_ITEM.test(line)) {
+      endParagraph();
+      const ordered = !!line.match(LIST_ITEM)![2];
+      const items: string[] = [];
+      for (; i < lines.length; i++) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item && !!item[2] === ordered) {
+          items.push(item[3]);
+        } else if (items.length > 0 && /^\s{2,}\S/.test(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items });
+    } else if (/^\s*>/.test(line)) {
+      endParagraph();
+      const quote: string[] = [];
+      for (; i < lines.length && /^\s*>/.test(lines[i]); i++) {
+        quote.push(lines[i].replace(/^\s*>\s?/, ''));
+      }
+      i--;
+      blocks.push({ type: 'quote', text: quote.join(' ') });
+    } else if (line.trim() === '') {
+      endParagraph();
+    } else {
+      paragraph.push(line.trim());
+    }
+  }
+  endParagraph();
+  return blocks;
+};
+
+const INLINE = /`([^`]+)`|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|_(.+?)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+// Only web links are kept clickable
+const isSafeHref = (href: string) => /^(https?:|mailto:)/i.test(href);
+
+export const parseInline = (text: string): MarkdownInline[] => {
+  const spans: MarkdownInline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE)) {
+    if (match.index > last) spans.push({ type: 'text', text: text.slice(last, match.index) });
+    const [whole, code, strong, strongAlt, em, emAlt, linkText, href] = match;
+    if (code !== undefined) spans.push({ type: 'code', text: code });
+    else if (strong !== undefined || strongAlt !== undefined) spans.push({ type: 'strong', text: strong ?? strongAlt });
+    else if (em !== undefined || emAlt !== undefined) spans.push({ type: 'em', text: em ?? emAlt });
+    else if (isSafeHref(href)) spans.push({ type: 'link', text: linkText, href });
+    else spans.push({ type: 'text', text: whole });
+    last = match.index + whole.length;
+  }
+  if (last < text.length) spans.push({ type: 'text', text: text.slice(last) });
+  return spans;
+};
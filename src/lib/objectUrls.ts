@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+
+// Reference-counted object URLs: one URL per Blob, revoked once nothing displays it anymore
+
+const entries = new Map<Blob, { url: string; refs: number }>();
+
+export const acquireObjectUrl = (blob: Blob) => {
+  const entry = entries.get(blob);
+  if (entry) {
+    entry.refs++;
+    return entry.url;
+  }
+  const url = URL.createObjectURL(blob);
+  entries.set(blob, { url, refs: 1 });
+  return url;
+};
+
+export const releaseObjectUrl = (blob: Blob) => {
+  const entry = entries.get(blob);
+  if (!entry) return;
+  entry.refs--;
+  if (entry.refs <= 0) {
+    URL.revokeObjectURL(entry.url);
+    entries.delete(blob);
+  }
+};
+
+// Object URL for a Blob, held for as long as the calling component displays it
+export const useObjectUrl = (blob: Blob | null) => {
+  const [url, setUrl] = useState('');
+
+  useEffect(() => {
+    if (!blob) {
+      setUrl('');
+      return;
+    }
+    setUrl(acquireObjectUrl(blob));
+    return () => releaseObjectUrl(blob);
+  }, [blob]);
+
+  return url;
+};
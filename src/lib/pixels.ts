@@ -0,0 +1,45 @@
+import { canvasToBlob } from '@/lib/formats';
+import { acquireObjectUrl, releaseObjectUrl } from '@/lib/objectUrls';
+
+// Pixel access for rendered figures, shared by comparison and quality checks
+
+// <img> decoding works for every rendered format, including SVG which createImageBitmap may reject
+export const loadImageElement = (blob: Blob) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to decode image'));
+    image.src = acquireObjectUrl(blob);
+  }).finally(() => releaseObjectUrl(blob));
+
+// Fit width × height into maxSize while keeping the aspect ratio
+export const fitSize = (width: number, height: number, maxSize: number) => {
+  const scale = Math.min(maxSize / width, maxSize / height, 1);
+  return {
+    width: Math.max(Math.round(width * scale), 1),
+    height: Math.max(Math.round(height * scale), 1),
+  };
+};
+
+// Draw onto white so transparent backgrounds compare like they look on screen
+export const drawToImageData = (image: CanvasImageSource, width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+};
+
+export const imageDataToBlob = (data: ImageData) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = data.width;
+  canvas.height = data.height;
+  canvas.getContext('2d')!.putImageData(data, 0, 0);
+  return canvasToBlob(canvas);
+};
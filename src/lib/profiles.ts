@@ -0,0 +1,257 @@
+import { DEFAULT_ATTRIBUTES, type Attribute, type FollowUpQuestion, type ImageEntry } from '@/lib/attributes';
+
+// Named label profiles, persisted in localStorage and exchangeable as JSON
+
+export interface LabelProfile {
+  name: string;
+  attributes: Attribute[];
+}
+
+export interface ProfileState {
+  profiles: LabelProfile[];
+  activeProfile: string;
+}
+
+export const BUILTIN_PROFILES: LabelProfile[] = [
+  { name: 'Y/N', attributes: DEFAULT_ATTRIBUTES },
+  {
+    name: 'Good/Minor/Major/Reject',
+    attributes: [
+      {
+        name: 'Choice',
+        required: true,
+        labels: [
+          { key: '1', value: 'Good' },
+          { key: '2', value: 'Minor' },
+          { key: '3', value: 'Major' },
+          { key: '4', value: 'Reject' },
+        ],
+      },
+    ],
+  },
+];
+
+const STORAGE_KEY = 'figure-checker:profiles';
+const RESERVED_COLUMNS = ['image', 'comment', 'checks', 'difference'];
+
+type ValidationResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const optionalName = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const parseQuestions = (input: unknown): ValidationResult<FollowUpQuestion[]> => {
+  if (input === undefined) return { ok: true, value: [] };
+  if (!Array.isArray(input)) {
+    return { ok: false, error: 'フォローアップ質問の形式が不正です' };
+  }
+
+  const questions: FollowUpQuestion[] = [];
+  for (const item of input) {
+    if (!item || typeof item !== 'object') {
+      return { ok: false, error: 'フォローアップ質問の形式が不正です' };
+    }
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    if (!name) {
+      return { ok: false, error: 'フォローアップ質問の名前を入力してください' };
+    }
+    if (item.kind === 'comment') {
+      questions.push({ name, kind: 'comment', options: [] });
+      continue;
+    }
+
+    const options = (Array.isArray(item.options) ? item.options as unknown[] : [])
+      .filter((option): option is { key: string; value: string; next?: unknown } =>
+        !!option && typeof option === 'object' &&
+        typeof (option as Record<string, unknown>).key === 'string' &&
+        typeof (option as Record<string, unknown>).value === 'string')
+      .map(option => ({ key: option.key.trim(), value: option.value.trim(), next: optionalName(option.next) }))
+      .filter(option => option.key && option.value);
+    if (options.length === 0) {
+      return { ok: false, error: `${name}: 少なくとも1つの選択肢を設定してください` };
+    }
+    if (options.some(option => option.key.length !== 1)) {
+      return { ok: false, error: 'キーボードキーは1文字で設定してください' };
+    }
+    const optionKeys = options.map(option => option.key.toLowerCase());
+    const optionValues = options.map(option => option.value);
+    if (optionKeys.length !== new Set(optionKeys).size || optionValues.length !== new Set(optionValues).size) {
+      return { ok: false, error: `${name}: 選択肢のキーまたは値が重複しています` };
+    }
+    questions.push({ name, kind: 'choice', options });
+  }
+  return { ok: true, value: questions };
+};
+
+// Every follow-up reference must point to a question of the same attribute, and no chain may loop back,
+// so answering always ends after a finite number of questions
+const validateFollowUps = (attribute: Attribute): string | null => {
+  const questions = new Map((attribute.questions ?? []).map(question => [question.name, question]));
+  const references = [
+    ...attribute.labels.map(label => label.followUp),
+    ...(attribute.questions ?? []).flatMap(question => question.options.map(option => option.next)),
+  ];
+  const missing = references.find(name => name && !questions.has(name));
+  if (missing) {
+    return `存在しないフォローアップ質問「${missing}」が参照されています`;
+  }
+
+  const finished = new Set<string>();
+  const visit = (name: string, path: string[]): string | null => {
+    if (path.includes(name)) {
+      return `フォローアップ質問が循環しています（${[...path, name].join(' → ')}）。すべての分岐が終了するように設定してください`;
+    }
+    if (finished.has(name)) return null;
+    for (const option of questions.get(name)!.options) {
+      const error = option.next ? visit(option.next, [...path, name]) : null;
+      if (error) return error;
+    }
+    finished.add(name);
+    return null;
+  };
+  for (const name of questions.keys()) {
+    const error = visit(name, []);
+    if (error) return error;
+  }
+  return null;
+};
+
+// Validate attributes coming from the settings form, storage or an imported file
+export const validateAttributes = (input: unknown): ValidationResult<Attribute[]> => {
+  if (!Array.isArray(input)) {
+    return { ok: false, error: '属性の形式が不正です' };
+  }
+
+  const attributes: Attribute[] = [];
+  for (const item of input) {
+    if (!item || typeof item !== 'object' || !Array.isArray(item.labels)) {
+      return { ok: false, error: '属性の形式が不正です' };
+    }
+    const name = typeof item.name === 'string' ? item.name.trim() : '';
+    const labels = (item.labels as unknown[])
+      .filter((label): label is { key: string; value: string; followUp?: unknown } =>
+        !!label && typeof label === 'object' &&
+        typeof (label as Record<string, unknown>).key === 'string' &&
+        typeof (label as Record<string, unknown>).value === 'string')
+      .map(label => ({ key: label.key.trim(), value: label.value.trim(), followUp: optionalName(label.followUp) }))
+      .filter(label => label.key && label.value);
+
+    if (labels.length === 0) continue;
+    if (!name) {
+      return { ok: false, error: '属性名を入力してください' };
+    }
+    if (labels.some(label => label.key.length !== 1)) {
+      return { ok: false, error: 'キーボードキーは1文字で設定してください' };
+    }
+    const questions = parseQuestions(item.questions);
+    if (!questions.ok) {
+      return questions;
+    }
+    const attribute: Attribute = {
+      name,
+      required: item.required !== false,
+      labels,
+      ...(questions.value.length > 0 && { questions: questions.value }),
+    };
+    const followUpError = validateFollowUps(attribute);
+    if (followUpError) {
+      return { ok: false, error: followUpError };
+    }
+    attributes.push(attribute);
+  }
+
+  if (attributes.length === 0) {
+    return { ok: false, error: '少なくとも1つの有効なオプションを設定してください' };
+  }
+
+  // Attribute and follow-up question names become CSV columns next to Image and the other fixed columns
+  const names = attributes.flatMap(attribute => [attribute.name, ...(attribute.questions ?? []).map(question => question.name)]);
+  const reserved = names.find(name => RESERVED_COLUMNS.includes(name.toLowerCase()));
+  if (reserved) {
+    return { ok: false, error: `「${reserved}」は固定の列名のため、属性名や質問名には使えません` };
+  }
+  if (names.length !== new Set(names.map(name => name.toLowerCase())).size) {
+    return { ok: false, error: '属性名または質問名が重複しています。異なる名前を設定してください' };
+  }
+
+  // Check for duplicate keys across all attributes
+  const keys = attributes.flatMap(attribute => attribute.labels.map(label => label.key.toLowerCase()));
+  if (keys.length !== new Set(keys).size) {
+    return { ok: false, error: 'キーボードキーが重複しています。異なるキーを設定してください' };
+  }
+
+  return { ok: true, value: attributes };
+};
+
+export const validateProfiles = (input: unknown): ValidationResult<LabelProfile[]> => {
+  const list = Array.isArray(input)
+    ? input
+    : input && typeof input === 'object' && Array.isArray((input as { profiles?: unknown }).profiles)
+      ? (input as { profiles: unknown[] }).profiles
+      : null;
+  if (!list) {
+    return { ok: false, error: 'Not a label profile file' };
+  }
+
+  const profiles: LabelProfile[] = [];
+  for (const item of list) {
+    const name = item && typeof item === 'object' && typeof item.name === 'string' ? item.name.trim() : '';
+    if (!name) {
+      return { ok: false, error: 'Every profile needs a name' };
+    }
+    const attributes = validateAttributes(item.attributes);
+    if (!attributes.ok) {
+      return { ok: false, error: `${name}: ${attributes.error}` };
+    }
+    if (profiles.some(profile => profile.name === name)) {
+      return { ok: false, error: `${name}: Profile names must be unique` };
+    }
+    profiles.push({ name, attributes: attributes.value });
+  }
+  if (profiles.length === 0) {
+    return { ok: false, error: 'At least one profile is required' };
+  }
+  return { ok: true, value: profiles };
+};
+
+export const formatProfilesJson = (profiles: LabelProfile[]) =>
+  JSON.stringify({ format: 'figure-checker-profiles', version: 1, profiles }, null, 2);
+
+export const parseProfilesJson = (text: string) => {
+  try {
+    return validateProfiles(JSON.parse(text));
+  } catch {
+    return { ok: false, error: 'Invalid JSON' } as const;
+  }
+};
+
+// Imported profiles replace stored ones with the same name
+export const mergeProfiles = (current: LabelProfile[], imported: LabelProfile[]) => [
+  ...current.filter(profile => !imported.some(i => i.name === profile.name)),
+  ...imported,
+];
+
+// Move values stored under renamed attributes and questions to their new names
+export const renameEntryValues = (entry: ImageEntry, renames: Map<string, string>): ImageEntry => ({
+  ...entry,
+  values: Object.fromEntries(Object.entries(entry.values).map(([name, value]) => [renames.get(name) ?? name, value])),
+});
+
+export const loadProfileState = (): ProfileState => {
+  const fallback = { profiles: BUILTIN_PROFILES, activeProfile: BUILTIN_PROFILES[0].name };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (!stored) return fallback;
+
+    const profiles = validateProfiles(stored.profiles);
+    if (!profiles.ok) return fallback;
+    const activeProfile = profiles.value.some(profile => profile.name === stored.activeProfile)
+      ? stored.activeProfile as string
+      : profiles.value[0].name;
+    return { profiles: profiles.value, activeProfile };
+  } catch {
+    return fallback;
+  }
+};
+
+export const saveProfileState = (state: ProfileState) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+};
@@ -0,0 +1,229 @@
+import { getFigureFormat, renderFigure } from '@/lib/formats';
+import { readDpi } from '@/lib/imageMetadata';
+import { drawToImageData, loadImageElement } from '@/lib/pixels';
+
+// Automatic pre-screening of figures before human review
+
+export type QualityIssue = 'empty-file' | 'undecodable' | 'low-resolution' | 'blank' | 'aspect-ratio' | 'duplicate';
+
+export interface QualityFlag {
+  issue: QualityIssue;
+  detail: string;
+}
+
+export const QUALITY_ISSUE_LABELS: Record<QualityIssue, string> = {
+  'empty-file': 'Empty file',
+  undecodable: 'Undecodable',
+  'low-resolution': 'Low resolution',
+  blank: 'Mostly blank',
+  'aspect-ratio': 'Extreme aspect ratio',
+  duplicate: 'Duplicate',
+};
+
+export interface QualityThresholds {
+  // Shorter side in pixels; 0 disables the check
+  minPixels: number;
+  // Only applied when the file records its resolution; 0 disables the check
+  minDpi: number;
+  // Share of pixels matching the background colour
+  blankRatio: number;
+  // Longer side divided by shorter side
+  maxAspectRatio: number;
+  // Maximum Hamming distance between 64-bit perceptual hashes
+  duplicateDistance: number;
+}
+
+export const DEFAULT_QUALITY_THRESHOLDS: QualityThresholds = {
+  minPixels: 600,
+  minDpi: 300,
+  blankRatio: 0.995,
+  maxAspectRatio: 5,
+  duplicateDistance: 4,
+};
+
+export type FigureAnalysis =
+  | { ok: false; issue: 'empty-file' | 'undecodable'; detail: string }
+  | {
+      ok: true;
+      width: number;
+      height: number;
+      dpi: number | null;
+      // Vector figures (SVG, PDF) have no meaningful pixel resolution
+      vector: boolean;
+      blankness: number;
+      hash: [number, number];
+    };
+
+const STORAGE_KEY = 'figure-checker:quality';
+const BLANK_SAMPLE_SIZE = 64;
+// Channel difference still counted as background (JPEG noise, anti-aliasing)
+const BLANK_TOLERANCE = 16;
+const VECTOR_FORMATS = ['SVG', 'PDF'];
+
+// Share of pixels within tolerance of the most common colour
+const measureBlankness = ({ data }: ImageData) => {
+  const counts = new Map<number, number>();
+  for (let i = 0; i < data.length; i += 4) {
+    const bucket = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    counts.set(bucket, (counts.get(bucket) ?? 0) + 1);
+  }
+  const [background] = Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best));
+  const target = [((background >> 8) & 15) * 16 + 8, ((background >> 4) & 15) * 16 + 8, (background & 15) * 16 + 8];
+
+  let matching = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (
+      Math.abs(data[i] - target[0]) <= BLANK_TOLERANCE &&
+      Math.abs(data[i + 1] - target[1]) <= BLANK_TOLERANCE &&
+      Math.abs(data[i + 2] - target[2]) <= BLANK_TOLERANCE
+    ) {
+      matching++;
+    }
+  }
+  return matching / (data.length / 4);
+};
+
+// Difference hash: compare horizontally adjacent pixels of a 9×8 grayscale copy
+const differenceHash = ({ data }: ImageData): [number, number] => {
+  const gray = (x: number, y: number) => {
+    const i = (y * 9 + x) * 4;
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114;
+  };
+  const hash: [number, number] = [0, 0];
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 8; x++) {
+      const bit = y * 8 + x;
+      if (gray(x, y) > gray(x + 1, y)) {
+        hash[bit >> 5] |= 1 << (bit & 31);
+      }
+    }
+  }
+  return hash;
+};
+
+const popCount = (value: number) => {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+const hashDistance = (a: [number, number], b: [number, number]) => popCount(a[0] ^ b[0]) + popCount(a[1] ^ b[1]);
+
+const hashBit = (hash: [number, number], bit: number) => (hash[bit >> 5] >>> (bit & 31)) & 1;
+
+// Hashes at most `distance` bits apart agree exactly on at least one of `distance + 1` bands of bits,
+// so only hashes sharing a band are compared instead of every pair
+const candidatePairs = (hashes: [number, number][], distance: number) => {
+  const bands = Math.min(Math.max(Math.floor(distance), 0) + 1, 64);
+  const buckets = new Map<string, number[]>();
+  hashes.forEach((hash, index) => {
+    for (let band = 0; band < bands; band++) {
+      let key = `${band}:`;
+      for (let bit = Math.floor((band * 64) / bands); bit < Math.floor(((band + 1) * 64) / bands); bit++) {
+        key += hashBit(hash, bit);
+      }
+      const bucket = buckets.get(key);
+      if (bucket) bucket.push(index);
+      else buckets.set(key, [index]);
+    }
+  });
+
+  const pairs = new Map<number, [number, number]>();
+  for (const indices of buckets.values()) {
+    for (let a = 0; a < indices.length; a++) {
+      for (let b = a + 1; b < indices.length; b++) {
+        pairs.set(indices[a] * hashes.length + indices[b], [indices[a], indices[b]]);
+      }
+    }
+  }
+  return Array.from(pairs.keys()).sort((a, b) => a - b).map(key => pairs.get(key)!);
+};
+
+export const analyzeFigure = async (key: string, file: File): Promise<FigureAnalysis> => {
+  if (file.size === 0) {
+    return { ok: false, issue: 'empty-file', detail: 'File is 0 bytes' };
+  }
+
+  try {
+    const image = await loadImageElement(await renderFigure(key, file));
+    const format = getFigureFormat(key);
+    return {
+      ok: true,
+      width: image.naturalWidth,
+      height: image.naturalHeight,
+      dpi: await readDpi(file),
+      vector: !!format && VECTOR_FORMATS.includes(format.name),
+      blankness: measureBlankness(drawToImageData(image, BLANK_SAMPLE_SIZE, BLANK_SAMPLE_SIZE)),
+      hash: differenceHash(drawToImageData(image, 9, 8)),
+    };
+  } catch (error) {
+    return { ok: false, issue: 'undecodable', detail: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Thresholds are applied separately from analysis so changing them doesn't re-read every file
+export const evaluateQualityChecks = (analyses: Map<string, FigureAnalysis>, thresholds: QualityThresholds) => {
+  const flags = new Map<string, QualityFlag[]>();
+  const add = (key: string, flag: QualityFlag) => flags.set(key, [...(flags.get(key) ?? []), flag]);
+  const hashed: [string, [number, number]][] = [];
+
+  for (const [key, analysis] of analyses) {
+    if (!analysis.ok) {
+      add(key, { issue: analysis.issue, detail: analysis.detail });
+      continue;
+    }
+
+    const shorter = Math.min(analysis.width, analysis.height);
+    const longer = Math.max(analysis.width, analysis.height);
+    if (!analysis.vector && thresholds.minPixels > 0 && shorter < thresholds.minPixels) {
+      add(key, { issue: 'low-resolution', detail: `${analysis.width}×${analysis.height} px` });
+    } else if (!analysis.vector && thresholds.minDpi > 0 && analysis.dpi !== null && analysis.dpi < thresholds.minDpi) {
+      add(key, { issue: 'low-resolution', detail: `${Math.round(analysis.dpi)} dpi` });
+    }
+    if (analysis.blankness >= thresholds.blankRatio) {
+      add(key, { issue: 'blank', detail: `${(analysis.blankness * 100).toFixed(1)}% background` });
+    }
+    if (shorter > 0 && longer / shorter > thresholds.maxAspectRatio) {
+      add(key, { issue: 'aspect-ratio', detail: `${(longer / shorter).toFixed(1)}:1` });
+    }
+    // Blank figures all hash alike, so leave them out of duplicate detection
+    if (analysis.blankness < thresholds.blankRatio) {
+      hashed.push([key, analysis.hash]);
+    }
+  }
+
+  for (const [i, j] of candidatePairs(hashed.map(([, hash]) => hash), thresholds.duplicateDistance)) {
+    if (hashDistance(hashed[i][1], hashed[j][1]) <= thresholds.duplicateDistance) {
+      add(hashed[i][0], { issue: 'duplicate', detail: `Similar to ${hashed[j][0]}` });
+      add(hashed[j][0], { issue: 'duplicate', detail: `Similar to ${hashed[i][0]}` });
+    }
+  }
+
+  return flags;
+};
+
+// CSV value for the Checks column
+export const formatQualityFlags = (flags: QualityFlag[] | undefined) =>
+  Array.from(new Set((flags ?? []).map(flag => flag.issue))).join(';');
+
+export const loadQualityThresholds = (): QualityThresholds => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<QualityThresholds> | null;
+    if (!stored) return DEFAULT_QUALITY_THRESHOLDS;
+
+    const thresholds = { ...DEFAULT_QUALITY_THRESHOLDS };
+    (Object.keys(DEFAULT_QUALITY_THRESHOLDS) as (keyof QualityThresholds)[]).forEach(name => {
+      const value = stored[name];
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        thresholds[name] = value;
+      }
+    });
+    return thresholds;
+  } catch {
+    return DEFAULT_QUALITY_THRESHOLDS;
+  }
+};
+
+export const saveQualityThresholds = (thresholds: QualityThresholds) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(thresholds));
+};
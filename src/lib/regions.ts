@@ -0,0 +1,67 @@
+// Boxes and pins drawn on a figure, stored in coordinates relative to the image size (0–1)
+
+export type Region =
+  | { id: string; kind: 'box'; x: number; y: number; width: number; height: number; note: string }
+  | { id: string; kind: 'pin'; x: number; y: number; note: string };
+
+export interface RegionsFile {
+  format: 'figure-checker-regions';
+  version: 1;
+  images: { image: string; regions: Region[] }[];
+}
+
+export const createRegionId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+// Sidecar file stored next to results-YYYY-MM-DD-HHMM.csv
+export const regionsFileName = (csvFileName: string) => csvFileName.replace(/\.csv$/i, '') + '.regions.json';
+
+export const formatRegionsFile = (imageRegions: Map<string, Region[]>) => {
+  const file: RegionsFile = {
+    format: 'figure-checker-regions',
+    version: 1,
+    images: Array.from(imageRegions.entries())
+      .filter(([, regions]) => regions.length > 0)
+      .map(([image, regions]) => ({ image, regions })),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const clamp01 = (value: unknown) => Math.min(Math.max(Number(value) || 0, 0), 1);
+
+const parseRegion = (value: unknown): Region | null => {
+  if (!value || typeof value !== 'object') return null;
+  const region = value as Record<string, unknown>;
+  const base = {
+    id: typeof region.id === 'string' ? region.id : createRegionId(),
+    x: clamp01(region.x),
+    y: clamp01(region.y),
+    note: typeof region.note === 'string' ? region.note : '',
+  };
+  if (region.kind === 'box') {
+    return { ...base, kind: 'box', width: clamp01(region.width), height: clamp01(region.height) };
+  }
+  if (region.kind === 'pin') {
+    return { ...base, kind: 'pin' };
+  }
+  return null;
+};
+
+export const parseRegionsFile = (text: string) => {
+  const data = JSON.parse(text) as Partial<RegionsFile>;
+  if (data.format !== 'figure-checker-regions' || !Array.isArray(data.images)) {
+    throw new Error('Not a figure checker regions file');
+  }
+
+  const imageRegions = new Map<string, Region[]>();
+  for (const item of data.images) {
+    if (typeof item?.image !== 'string' || !Array.isArray(item.regions)) continue;
+    const regions = item.regions.map(parseRegion).filter((region): region is Region => region !== null);
+    if (regions.length > 0) {
+      imageRegions.set(item.image, regions);
+    }
+  }
+  return imageRegions;
+};
@@ -0,0 +1,67 @@
+import { followUpColumns, type Attribute, type ImageEntry } from '@/lib/attributes';
+import { findColumn, parseCsv, type CsvParseError } from '@/lib/csv';
+import { normalizeImagePath } from '@/lib/directory';
+
+// Reading results-*.csv files back into per-image entries
+
+export type ResultsCsvParseResult =
+  | { ok: true; choices: Map<string, ImageEntry>; errors: CsvParseError[] }
+  | { ok: false; error: string };
+
+export const parseResultsCsv = (text: string, attributes: Attribute[]): ResultsCsvParseResult => {
+  const { header, records, errors } = parseCsv(text);
+
+  const imageColumn = findColumn(header, 'Image');
+  // Files written before attributes existed have a single Choice column
+  const attributeColumns = attributes
+    .map((attribute, index) => ({
+      name: attribute.name,
+      column: attributes.length === 1 && index === 0
+        ? findColumn(header, attribute.name, 'Choice')
+        : findColumn(header, attribute.name),
+    }))
+    .filter(({ column }) => column !== -1);
+  const answerColumns = followUpColumns(attributes)
+    .map(name => ({ name, column: findColumn(header, name) }))
+    .filter(({ column }) => column !== -1);
+  const commentColumn = findColumn(header, 'Comment');
+  if (imageColumn === -1 || attributeColumns.length === 0) {
+    return {
+      ok: false,
+      error: `Invalid CSV format: header must contain Image and at least one of ${attributes.map(attribute => attribute.name).join(', ')}`,
+    };
+  }
+
+  const choices = new Map<string, ImageEntry>();
+  const rowErrors = [...errors];
+
+  for (const record of records) {
+    const imageName = record.values[imageColumn];
+    if (record.values.length < header.length) {
+      rowErrors.push({ line: record.line, message: `Expected ${header.length} columns, found ${record.values.length}` });
+    } else if (!imageName) {
+      rowErrors.push({ line: record.line, message: 'Missing Image value' });
+    } else {
+      const values: Record<string, string> = {};
+      for (const { name, column } of [...attributeColumns, ...answerColumns]) {
+        if (record.values[column]) {
+          values[name] = record.values[column];
+        }
+      }
+      const comment = commentColumn !== -1 ? record.values[commentColumn] : '';
+      if (Object.keys(values).length > 0 || comment) {
+        choices.set(normalizeImagePath(imageName), comment ? { values, comment } : { values });
+      }
+    }
+  }
+
+  return { ok: true, choices, errors: rowErrors };
+};
+
+export const describeRowErrors = (errors: CsvParseError[]) => {
+  const details = errors
+    .slice(0, 3)
+    .map(rowError => `line ${rowError.line}: ${rowError.message}`)
+    .join('; ');
+  return `${errors.length} problem(s) found: ${details}${errors.length > 3 ? '; …' : ''}`;
+};
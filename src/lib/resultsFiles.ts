@@ -0,0 +1,114 @@
+import { regionsFileName } from '@/lib/regions';
+import { summaryFileName } from '@/lib/statistics';
+
+// Timestamped results-YYYY-MM-DD-HHMM.csv files inside the figure directory
+
+export const RESULTS_FILE_PATTERN = /^results-\d{4}-\d{2}-\d{2}-\d{4}\.csv$/;
+
+// Local date and time throughout, so names sort in the order the files were written
+const fileTimestamp = (now: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const dateString = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`; // YYYY-MM-DD format
+  const timeString = `${pad(now.getHours())}${pad(now.getMinutes())}`; // HHMM format
+  return `${dateString}-${timeString}`;
+};
+
+export const resultsFileName = (now: Date) => `results-${fileTimestamp(now)}.csv`;
+
+// Summaries exported while no results file is being written stand alone; rotation leaves them be
+export const standaloneSummaryFileName = (now: Date, extension: 'csv' | 'json') =>
+  `summary-${fileTimestamp(now)}.${extension}`;
+
+// Newest first
+export const listResultsFiles = async (dirHandle: FileSystemDirectoryHandle) => {
+  const csvFiles: { name: string; handle: FileSystemFileHandle }[] = [];
+
+  // @ts-expect-error - FileSystemDirectoryHandle async iterator
+  for await (const [name, handle] of dirHandle) {
+    if (handle.kind === 'file' && RESULTS_FILE_PATTERN.test(name)) {
+      csvFiles.push({ name, handle });
+    }
+  }
+
+  return csvFiles.sort((a, b) => b.name.localeCompare(a.name));
+};
+
+// Ask once for readwrite access; resolves false if the user declines
+export const requestWritePermission = async (dirHandle: FileSystemDirectoryHandle) => {
+  const options = { mode: 'readwrite' };
+  // @ts-expect-error - queryPermission not in TypeScript definitions
+  if ((await dirHandle.queryPermission(options)) === 'granted') {
+    return true;
+  }
+  // @ts-expect-error - requestPermission not in TypeScript definitions
+  return (await dirHandle.requestPermission(options)) === 'granted';
+};
+
+export const writeResultsFile = async (dirHandle: FileSystemDirectoryHandle, name: string, content: string) => {
+  const fileHandle = await dirHandle.getFileHandle(name, { create: true });
+  const writable = await fileHandle.createWritable();
+  await writable.write(content);
+  await writable.close();
+};
+
+// Delete a file if it exists
+export const removeResultsFile = async (dirHandle: FileSystemDirectoryHandle, name: string) => {
+  try {
+    await dirHandle.removeEntry(name);
+  } catch (error) {
+    if (!(error instanceof DOMException && error.name === 'NotFoundError')) {
+      throw error;
+    }
+  }
+};
+
+// Files written next to a results CSV and named after it
+const sidecarFileNames = (name: string) => [
+  regionsFileName(name),
+  summaryFileName(name, 'csv'),
+  summaryFileName(name, 'json'),
+];
+
+const WRITTEN_STORAGE_KEY = 'figure-checker:written-results';
+
+// Results files save-in-place wrote, per directory name. Other results-*.csv files (e.g. colleagues' results
+// dropped into the folder) match the same pattern, so rotation only ever deletes files listed here.
+const loadWrittenResults = (): Record<string, string[]> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WRITTEN_STORAGE_KEY) ?? '{}');
+    return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveWrittenResults = (directory: string, names: string[]) => {
+  const written = loadWrittenResults();
+  if (names.length > 0) {
+    written[directory] = names;
+  } else {
+    delete written[directory];
+  }
+  localStorage.setItem(WRITTEN_STORAGE_KEY, JSON.stringify(written));
+};
+
+export const recordWrittenResults = (directory: string, name: string) => {
+  const names = loadWrittenResults()[directory] ?? [];
+  if (!names.includes(name)) {
+    saveWrittenResults(directory, [...names, name]);
+  }
+};
+
+// Delete all but the newest `keep` results files save-in-place wrote, along with their sidecars
+export const rotateResultsFiles = async (dirHandle: FileSystemDirectoryHandle, directory: string, keep: number) => {
+  const written = new Set(loadWrittenResults()[directory] ?? []);
+  const ownFiles = (await listResultsFiles(dirHandle)).filter(({ name }) => written.has(name));
+  for (const { name } of ownFiles.slice(Math.max(keep, 1))) {
+    await dirHandle.removeEntry(name);
+    for (const sidecar of sidecarFileNames(name)) {
+      await removeResultsFile(dirHandle, sidecar);
+    }
+  }
+  // Files deleted here or by hand are forgotten
+  saveWrittenResults(directory, ownFiles.slice(0, Math.max(keep, 1)).map(({ name }) => name));
+};
@@ -0,0 +1,140 @@
+import { pruneFollowUps, type Attribute, type ImageEntry } from '@/lib/attributes';
+import type { Region } from '@/lib/regions';
+
+// Combining choices loaded from a results file with the ones already in the session
+
+export type LoadMode = 'replace' | 'keep-current' | 'prefer-file';
+
+export const LOAD_MODE_LABELS: Record<LoadMode, string> = {
+  replace: 'Replace current labels',
+  'keep-current': 'Merge, keep current on conflict',
+  'prefer-file': 'Merge, prefer file on conflict',
+};
+
+export interface LoadConflict {
+  image: string;
+  current: ImageEntry;
+  incoming: ImageEntry;
+}
+
+export interface LoadPreview {
+  // Rows for images the session has no labels for yet
+  added: string[];
+  conflicts: LoadConflict[];
+  // Rows that don't match any image in the directory
+  orphans: string[];
+}
+
+export interface LoadSummary {
+  mode: LoadMode;
+  added: number;
+  overwritten: number;
+  kept: number;
+  // Current labels discarded because the file has no row for them (replace only)
+  removed: number;
+  orphansKept: number;
+  orphansDropped: number;
+  total: number;
+}
+
+// Merging is per attribute, so values only one side has are always kept. Follow-up answers the merged values no
+// longer lead to are dropped, like when the value is changed by hand.
+const mergeEntries = (attributes: Attribute[], preferred: ImageEntry, other: ImageEntry): ImageEntry => {
+  const comment = preferred.comment || other.comment;
+  const values = { ...other.values, ...preferred.values };
+  return pruneFollowUps(attributes, comment ? { values, comment } : { values });
+};
+
+// Follow-up answers an entry gives that a merged entry drops, because they were given under a different value
+const dropsAnswers = (attributes: Attribute[], entry: ImageEntry, merged: ImageEntry) =>
+  Object.keys(pruneFollowUps(attributes, entry).values).some(name => !(name in merged.values));
+
+// Entries conflict when both set an attribute or comment to different values, or when merging them either way
+// would drop a follow-up answer
+const entriesConflict = (attributes: Attribute[], a: ImageEntry, b: ImageEntry) =>
+  Object.keys(a.values).some(name => b.values[name] && b.values[name] !== a.values[name]) ||
+  (!!a.comment && !!b.comment && a.comment !== b.comment) ||
+  [mergeEntries(attributes, a, b), mergeEntries(attributes, b, a)].some(merged =>
+    dropsAnswers(attributes, a, merged) || dropsAnswers(attributes, b, merged));
+
+export const previewLoad = (
+  current: Map<string, ImageEntry>,
+  incoming: Map<string, ImageEntry>,
+  images: string[],
+  attributes: Attribute[],
+): LoadPreview => {
+  const known = new Set(images);
+  const preview: LoadPreview = { added: [], conflicts: [], orphans: [] };
+  incoming.forEach((entry, image) => {
+    if (!known.has(image)) {
+      preview.orphans.push(image);
+      return;
+    }
+    const existing = current.get(image);
+    if (!existing) {
+      preview.added.push(image);
+    } else if (entriesConflict(attributes, existing, entry)) {
+      preview.conflicts.push({ image, current: existing, incoming: entry });
+    }
+  });
+  return preview;
+};
+
+export const applyLoad = (
+  current: Map<string, ImageEntry>,
+  incoming: Map<string, ImageEntry>,
+  images: string[],
+  attributes: Attribute[],
+  mode: LoadMode,
+  keepOrphans: boolean,
+) => {
+  const { conflicts, orphans, added } = previewLoad(current, incoming, images, attributes);
+  const orphanSet = new Set(orphans);
+  const accepted = new Map(Array.from(incoming).filter(([image]) => keepOrphans || !orphanSet.has(image)));
+
+  let choices: Map<string, ImageEntry>;
+  if (mode === 'replace') {
+    choices = accepted;
+  } else {
+    choices = new Map(current);
+    accepted.forEach((entry, image) => {
+      const existing = current.get(image);
+      choices.set(image, !existing
+        ? entry
+        : mode === 'prefer-file' ? mergeEntries(attributes, entry, existing) : mergeEntries(attributes, existing, entry));
+    });
+  }
+
+  const summary: LoadSummary = {
+    mode,
+    added: added.length,
+    overwritten: mode === 'keep-current' ? 0 : conflicts.length,
+    kept: mode === 'keep-current' ? conflicts.length : 0,
+    removed: mode === 'replace' ? Array.from(current.keys()).filter(image => !accepted.has(image)).length : 0,
+    orphansKept: keepOrphans ? orphans.length : 0,
+    orphansDropped: keepOrphans ? 0 : orphans.length,
+    total: choices.size,
+  };
+  return { choices, summary };
+};
+
+// Regions from the file's .regions.json follow the same mode, per image rather than per region
+export const applyRegionsLoad = (
+  current: Map<string, Region[]>,
+  incoming: Map<string, Region[]>,
+  images: string[],
+  mode: LoadMode,
+  keepOrphans: boolean,
+) => {
+  const known = new Set(images);
+  const accepted = Array.from(incoming).filter(([image]) => keepOrphans || known.has(image));
+  if (mode === 'replace') return new Map(accepted);
+
+  const regions = new Map(current);
+  accepted.forEach(([image, imageRegions]) => {
+    if (mode === 'prefer-file' || !current.has(image)) {
+      regions.set(image, imageRegions);
+    }
+  });
+  return regions;
+};
@@ -0,0 +1,116 @@
+import { isEntryComplete, type Attribute, type ImageEntry } from '@/lib/attributes';
+import type { QualityFlag } from '@/lib/qualityChecks';
+import { ANY_CHECK, UNSELECTED, type LabelValue } from '@/lib/timelineView';
+
+// Named review passes: a later look at a subset of figures (e.g. every "N"), labeled afresh
+// while the values from before the pass are kept for comparison and export
+
+// Unlabeled figures, flagged figures, or figures with one attribute value, as in the Timeline label filter
+export type PassScope = typeof UNSELECTED | typeof ANY_CHECK | LabelValue;
+
+export interface ReviewPass {
+  name: string;
+  scope: PassScope;
+  // Figures in the pass, fixed when it starts
+  images: string[];
+  // Entries of those figures when the pass started
+  original: Map<string, ImageEntry>;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export type SavedReviewPass = Omit<ReviewPass, 'original'> & { original: [string, ImageEntry][] };
+
+interface ScopeData {
+  imageChoices: Map<string, ImageEntry>;
+  attributes: Attribute[];
+  qualityFlags: Map<string, QualityFlag[]>;
+}
+
+export const describeScope = (scope: PassScope) => {
+  if (scope === UNSELECTED) return 'Unlabeled';
+  if (scope === ANY_CHECK) return 'Flagged by quality checks';
+  return `${scope.attribute} = ${scope.value}`;
+};
+
+export const selectPassImages = (images: string[], scope: PassScope, { imageChoices, attributes, qualityFlags }: ScopeData) =>
+  images.filter(image => {
+    if (scope === UNSELECTED) return !isEntryComplete(attributes, imageChoices.get(image));
+    if (scope === ANY_CHECK) return qualityFlags.has(image);
+    return imageChoices.get(image)?.values[scope.attribute] === scope.value;
+  });
+
+export const activePass = (passes: ReviewPass[]) => {
+  const last = passes[passes.length - 1];
+  return last && last.finishedAt === undefined ? last : null;
+};
+
+// Clear the labels of the pass's figures so they are chosen again; comments stay.
+// The cleared labels only drive navigation: see knownChoices for everything else.
+export const startPass = (name: string, scope: PassScope, images: string[], imageChoices: Map<string, ImageEntry>) => {
+  const original = new Map<string, ImageEntry>();
+  const choices = new Map(imageChoices);
+  images.forEach(image => {
+    const entry = imageChoices.get(image);
+    if (!entry) return;
+    original.set(image, entry);
+    choices.set(image, entry.comment ? { values: {}, comment: entry.comment } : { values: {} });
+  });
+  const pass: ReviewPass = { name, scope, images, original, startedAt: Date.now() };
+  return { pass, choices };
+};
+
+// Labels as far as they are known: figures of the running pass not re-checked yet count with their earlier entry.
+// Statistics, agreement, sorting and exports use these, so starting a pass doesn't make its figures look unlabeled.
+export const knownChoices = (passes: ReviewPass[], imageChoices: Map<string, ImageEntry>, attributes: Attribute[]) => {
+  const pass = activePass(passes);
+  if (!pass) return imageChoices;
+  const choices = new Map(imageChoices);
+  pass.original.forEach((entry, image) => {
+    if (!isEntryComplete(attributes, imageChoices.get(image))) {
+      choices.set(image, entry);
+    }
+  });
+  return choices;
+};
+
+export interface PassChange {
+  image: string;
+  before: ImageEntry | undefined;
+  after: ImageEntry | undefined;
+}
+
+const sameValues = (attributes: Attribute[], a: ImageEntry | undefined, b: ImageEntry | undefined) =>
+  attributes.every(attribute => (a?.values[attribute.name] ?? '') === (b?.values[attribute.name] ?? ''));
+
+// Figures whose attribute values differ between the start of `pass` and `after`
+// (the start of the next pass, or the current choices for the latest one)
+export const diffPass = (pass: ReviewPass, after: Map<string, ImageEntry>, attributes: Attribute[]): PassChange[] =>
+  pass.images
+    .filter(image => isEntryComplete(attributes, after.get(image)))
+    .filter(image => !sameValues(attributes, pass.original.get(image), after.get(image)))
+    .map(image => ({ image, before: pass.original.get(image), after: after.get(image) }));
+
+// Choices as they stood at the end of each pass
+export const passResults = (passes: ReviewPass[], imageChoices: Map<string, ImageEntry>) =>
+  passes.map((_, index) => {
+    const next = passes[index + 1];
+    if (!next) return imageChoices;
+    const results = new Map(imageChoices);
+    // Later passes only replaced their own figures; undo them latest first
+    passes.slice(index + 1).reverse().forEach(later => later.images.forEach(image => {
+      const entry = later.original.get(image);
+      if (entry) results.set(image, entry);
+      else results.delete(image);
+    }));
+    return results;
+  });
+
+// One column per attribute and pass, holding the value from before that pass
+export const passColumnName = (attributeName: string, pass: ReviewPass) => `${attributeName} (before ${pass.name})`;
+
+export const serializePasses = (passes: ReviewPass[]): SavedReviewPass[] =>
+  passes.map(pass => ({ ...pass, original: Array.from(pass.original) }));
+
+export const restorePasses = (saved: SavedReviewPass[] | undefined): ReviewPass[] =>
+  (saved ?? []).map(pass => ({ ...pass, original: new Map(pass.original) }));
@@ -0,0 +1,81 @@
+import type { Attribute, ImageEntry } from '@/lib/attributes';
+import type { FileFingerprint } from '@/lib/directoryWatch';
+import type { Region } from '@/lib/regions';
+import type { SavedReviewPass } from '@/lib/reviewPasses';
+
+// Labeling sessions persisted in IndexedDB, one record per directory name
+
+export interface SavedSession {
+  directory: string;
+  images: string[];
+  attributes: Attribute[];
+  choices: [string, ImageEntry][];
+  regions?: [string, Region[]][];
+  passes?: SavedReviewPass[];
+  // Files of labeled figures as they were when labeled, to spot figures rewritten since
+  labeledFiles?: [string, FileFingerprint][];
+  currentImageIndex: number;
+  updatedAt: number;
+}
+
+export interface SessionComparison {
+  restoredCount: number;
+  newImages: string[];
+  missingImages: string[];
+}
+
+const DB_NAME = 'figure-checker';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'directory' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(SESSION_STORE, mode);
+      const request = run(transaction.objectStore(SESSION_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const loadSession = async (directory: string) =>
+  (await withStore<SavedSession | undefined>('readonly', store => store.get(directory))) ?? null;
+
+export const saveSession = (session: SavedSession) =>
+  withStore('readwrite', store => store.put(session));
+
+export const deleteSession = (directory: string) =>
+  withStore('readwrite', store => store.delete(directory));
+
+// Compare a saved session against a fresh directory scan
+export const compareSession = (session: SavedSession, images: string[]): SessionComparison => {
+  const current = new Set(images);
+  const saved = new Set(session.images);
+  return {
+    // Labels of figures that are gone can't be shown, so they don't count
+    restoredCount: session.choices.filter(([image]) => current.has(image)).length,
+    newImages: images.filter(image => !saved.has(image)),
+    missingImages: session.images.filter(image => !current.has(image)),
+  };
+};
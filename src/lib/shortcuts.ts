@@ -0,0 +1,119 @@
+import type { Attribute } from '@/lib/attributes';
+
+// Non-label keyboard shortcuts. Bindings are combo strings such as "j", "ArrowRight" or "Ctrl+s".
+
+export type ShortcutAction =
+  | 'next'
+  | 'previous'
+  | 'nextUnselected'
+  | 'zoomIn'
+  | 'zoomOut'
+  | 'zoomReset'
+  | 'clearLabel'
+  | 'save'
+  | 'undo'
+  | 'redo'
+  | 'help';
+
+export type ShortcutBindings = Record<ShortcutAction, string[]>;
+
+export const SHORTCUT_DESCRIPTIONS: Record<ShortcutAction, string> = {
+  next: 'Next image',
+  previous: 'Previous image',
+  nextUnselected: 'Jump to unselected figure',
+  zoomIn: 'Zoom in',
+  zoomOut: 'Zoom out',
+  zoomReset: 'Reset zoom',
+  clearLabel: 'Clear label',
+  save: 'Save CSV',
+  undo: 'Undo',
+  redo: 'Redo',
+  help: 'Show keyboard shortcuts',
+};
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  next: ['ArrowRight', 'ArrowDown', 'j'],
+  previous: ['ArrowLeft', 'ArrowUp', 'k'],
+  nextUnselected: ['u'],
+  zoomIn: ['+', '='],
+  zoomOut: ['-'],
+  zoomReset: ['0'],
+  clearLabel: ['Backspace', 'Delete'],
+  save: ['Ctrl+s'],
+  undo: ['Ctrl+z'],
+  redo: ['Ctrl+Shift+z', 'Ctrl+y'],
+  help: ['?'],
+};
+
+const STORAGE_KEY = 'figure-checker:shortcuts';
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta'];
+
+// Normalize a key event into a combo string. Shift is folded into symbols like "?" and "+".
+export const eventToCombo = (event: KeyboardEvent | React.KeyboardEvent) => {
+  if (MODIFIER_KEYS.includes(event.key)) return null;
+
+  const printable = event.key.length === 1;
+  const key = printable ? event.key.toLowerCase() : event.key;
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Ctrl');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && !(printable && !/[a-z]/i.test(event.key))) parts.push('Shift');
+  parts.push(key === ' ' ? 'Space' : key);
+  return parts.join('+');
+};
+
+export const findShortcutAction = (bindings: ShortcutBindings, combo: string) =>
+  (Object.keys(bindings) as ShortcutAction[]).find(action => bindings[action].includes(combo)) ?? null;
+
+export interface ShortcutConflict {
+  combo: string;
+  usedBy: string[];
+}
+
+// Combos bound more than once, either by two shortcuts or by a shortcut and a label key
+export const findShortcutConflicts = (bindings: ShortcutBindings, attributes: Attribute[]) => {
+  const usage = new Map<string, string[]>();
+  const use = (combo: string, by: string) => usage.set(combo, [...(usage.get(combo) ?? []), by]);
+
+  (Object.keys(bindings) as ShortcutAction[]).forEach(action => {
+    bindings[action].forEach(combo => use(combo, SHORTCUT_DESCRIPTIONS[action]));
+  });
+  attributes.forEach(attribute => {
+    attribute.labels.forEach(label => use(label.key.toLowerCase(), `Label "${label.value}"`));
+  });
+
+  const conflicts: ShortcutConflict[] = [];
+  usage.forEach((usedBy, combo) => {
+    if (usedBy.length > 1) {
+      conflicts.push({ combo, usedBy });
+    }
+  });
+  return conflicts;
+};
+
+// Single-key combos every shortcut uses, for checking label keys in the settings window
+export const plainShortcutKeys = (bindings: ShortcutBindings) =>
+  Object.values(bindings).flat().filter(combo => combo.length === 1);
+
+export const loadShortcuts = (): ShortcutBindings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null') as Partial<ShortcutBindings> | null;
+    if (!stored) return DEFAULT_SHORTCUTS;
+
+    const bindings = { ...DEFAULT_SHORTCUTS };
+    (Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[]).forEach(action => {
+      const value = stored[action];
+      if (Array.isArray(value) && value.every(combo => typeof combo === 'string')) {
+        bindings[action] = value;
+      }
+    });
+    return bindings;
+  } catch {
+    return DEFAULT_SHORTCUTS;
+  }
+};
+
+export const saveShortcuts = (bindings: ShortcutBindings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+};
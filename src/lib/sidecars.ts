@@ -0,0 +1,68 @@
+import { isSupportedFigure, parseItemKey } from '@/lib/formats';
+import type { ScannedDirectory } from '@/lib/directory';
+
+// Text files next to a figure sharing its basename (fig3.png → fig3.txt, fig3.md, …): captions, parameters, source data
+
+export type SidecarKind = 'text' | 'json' | 'markdown' | 'csv';
+
+const SIDECAR_KINDS: Record<string, SidecarKind> = {
+  txt: 'text',
+  json: 'json',
+  md: 'markdown',
+  csv: 'csv',
+};
+
+export interface Sidecar {
+  path: string;
+  file: File;
+}
+
+// Keyed by the path without extension
+export type SidecarMap = Map<string, Sidecar[]>;
+
+// Larger files are shown truncated
+export const SIDECAR_MAX_BYTES = 256 * 1024;
+
+const splitExtension = (path: string) => {
+  const index = path.lastIndexOf('.');
+  return index <= path.lastIndexOf('/')
+    ? { base: path, extension: '' }
+    : { base: path.slice(0, index), extension: path.slice(index + 1).toLowerCase() };
+};
+
+export const getSidecarKind = (name: string): SidecarKind | undefined => SIDECAR_KINDS[splitExtension(name).extension];
+
+// Accept function for the directory scan, picking up sidecars along with the figures
+export const isFigureOrSidecar = (name: string) => isSupportedFigure(name) || getSidecarKind(name) !== undefined;
+
+// Separate sidecars from figures in a scan, grouping them by the path without extension
+export const splitSidecars = ({ files }: ScannedDirectory) => {
+  const figures = new Map<string, File>();
+  const sidecars: SidecarMap = new Map();
+
+  files.forEach((file, path) => {
+    if (isSupportedFigure(path)) {
+      figures.set(path, file);
+      return;
+    }
+    const { base } = splitExtension(path);
+    sidecars.set(base, [...(sidecars.get(base) ?? []), { path, file }]);
+  });
+
+  const scanned: ScannedDirectory = { files: figures, paths: Array.from(figures.keys()).sort() };
+  return { figures: scanned, sidecars };
+};
+
+// All pages of a multi-page document share the document's sidecars
+export const findSidecars = (sidecars: SidecarMap, itemKey: string) =>
+  sidecars.get(splitExtension(parseItemKey(itemKey).path).base) ?? [];
+
+// Rescans produce new File objects; only replace the sidecars when something on disk differs
+export const sameSidecars = (a: SidecarMap, b: SidecarMap) => {
+  const fingerprint = (map: SidecarMap) => Array.from(map.values())
+    .flat()
+    .map(({ path, file }) => `${path}|${file.size}|${file.lastModified}`)
+    .sort()
+    .join('\n');
+  return fingerprint(a) === fingerprint(b);
+};
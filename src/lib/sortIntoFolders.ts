@@ -0,0 +1,148 @@
+import type { ImageEntry } from '@/lib/attributes';
+import { splitPath } from '@/lib/directory';
+import { pageItemKey, parseItemKey } from '@/lib/formats';
+import { findSidecars, type SidecarMap } from '@/lib/sidecars';
+
+// Copying or moving labeled figures into one subfolder per label value
+
+export type SortMode = 'copy' | 'move';
+
+export interface SortOperation {
+  source: string;
+  target: string;
+  value: string;
+}
+
+export interface SortPlan {
+  operations: SortOperation[];
+  skipped: { source: string; reason: string }[];
+}
+
+export interface SortResult {
+  done: SortOperation[];
+  failed: { source: string; reason: string }[];
+}
+
+// Keep folder names valid on every platform
+const sanitizeFolderName = (value: string) => value.replace(/[\\/:*?"<>|]/g, '_').replace(/^\.+$/, '_').trim() || '_';
+
+// Targets keep the relative path below the label folder, e.g. "Reject/exp1/fig2.png".
+// Sidecars go along when every figure sharing them goes to the same folder.
+export const planSort = (
+  images: string[],
+  imageChoices: Map<string, ImageEntry>,
+  attributeName: string,
+  values: string[],
+  sidecars: SidecarMap,
+): SortPlan => {
+  // Pages of one document share the file, so they must agree on the value
+  const valuesByFile = new Map<string, Set<string>>();
+  for (const image of images) {
+    const value = imageChoices.get(image)?.values[attributeName];
+    if (!value || !values.includes(value)) continue;
+    const { path } = parseItemKey(image);
+    valuesByFile.set(path, (valuesByFile.get(path) ?? new Set()).add(value));
+  }
+
+  const plan: SortPlan = { operations: [], skipped: [] };
+  valuesByFile.forEach((fileValues, source) => {
+    if (fileValues.size > 1) {
+      plan.skipped.push({ source, reason: `Pages have different values (${Array.from(fileValues).join(', ')})` });
+      return;
+    }
+    const [value] = fileValues;
+    const folder = sanitizeFolderName(value);
+    if (source.split('/')[0] === folder) {
+      plan.skipped.push({ source, reason: 'Already in the label folder' });
+      return;
+    }
+    plan.operations.push({ source, target: `${folder}/${source}`, value });
+  });
+
+  const figureOperations = new Map(plan.operations.map(operation => [operation.source, operation]));
+  const sidecarOperations = new Map<string, (SortOperation | undefined)[]>();
+  new Set(images.map(image => parseItemKey(image).path)).forEach(path => {
+    findSidecars(sidecars, path).forEach(sidecar => {
+      sidecarOperations.set(sidecar.path, [...(sidecarOperations.get(sidecar.path) ?? []), figureOperations.get(path)]);
+    });
+  });
+  sidecarOperations.forEach((operations, source) => {
+    const sorted = operations.filter((operation): operation is SortOperation => operation !== undefined);
+    if (sorted.length === 0) return;
+    const folders = new Set(sorted.map(operation => operation.target.split('/')[0]));
+    if (sorted.length < operations.length || folders.size > 1) {
+      plan.skipped.push({ source, reason: 'Figures sharing this file go to different folders' });
+      return;
+    }
+    plan.operations.push({ source, target: `${sorted[0].target.split('/')[0]}/${source}`, value: sorted[0].value });
+  });
+  return plan;
+};
+
+const getDirectory = async (root: FileSystemDirectoryHandle, dir: string, create: boolean) => {
+  let handle = root;
+  for (const part of dir.split('/').filter(Boolean)) {
+    handle = await handle.getDirectoryHandle(part, { create });
+  }
+  return handle;
+};
+
+const fileExists = async (dir: FileSystemDirectoryHandle, name: string) => {
+  try {
+    await dir.getFileHandle(name);
+    return true;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotFoundError') {
+      return false;
+    }
+    throw error;
+  }
+};
+
+// Existing files are never overwritten; moves copy first and only then remove the original.
+// Label folders go into `destination`, which is the reviewed directory itself unless copying elsewhere.
+export const executeSort = async (
+  root: FileSystemDirectoryHandle,
+  plan: SortPlan,
+  mode: SortMode,
+  destination: FileSystemDirectoryHandle = root,
+): Promise<SortResult> => {
+  const result: SortResult = { done: [], failed: [] };
+
+  for (const operation of plan.operations) {
+    try {
+      const source = splitPath(operation.source);
+      const target = splitPath(operation.target);
+      const sourceDir = await getDirectory(root, source.dir, false);
+      const file = await (await sourceDir.getFileHandle(source.name)).getFile();
+
+      const targetDir = await getDirectory(destination, target.dir, true);
+      if (await fileExists(targetDir, target.name)) {
+        result.failed.push({ source: operation.source, reason: `${operation.target} already exists` });
+        continue;
+      }
+      const writable = await (await targetDir.getFileHandle(target.name, { create: true })).createWritable();
+      await writable.write(file);
+      await writable.close();
+
+      if (mode === 'move') {
+        await sourceDir.removeEntry(source.name);
+      }
+      result.done.push(operation);
+    } catch (error) {
+      result.failed.push({ source: operation.source, reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+  return result;
+};
+
+// New item key after files moved, including every page of multi-page documents
+export const remapMovedKey = (key: string, moved: SortOperation[]) => {
+  const { path, page } = parseItemKey(key);
+  const operation = moved.find(o => o.source === path);
+  if (!operation) return key;
+  return key === path ? operation.target : pageItemKey(operation.target, page);
+};
+
+export const remapMovedKeys = <T>(map: Map<string, T>, moved: SortOperation[]) =>
+  new Map(Array.from(map, ([key, value]) => [remapMovedKey(key, moved), value]));
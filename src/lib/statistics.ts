@@ -0,0 +1,173 @@
+import { isEntryComplete, type Attribute, type ImageEntry } from '@/lib/attributes';
+import { formatCsv } from '@/lib/csv';
+import { splitPath } from '@/lib/directory';
+import { parseItemKey } from '@/lib/formats';
+
+// Progress and label distribution for the statistics dashboard and its summary export
+
+export type GroupBy = 'folder' | 'prefix';
+
+export interface ValueCount {
+  value: string;
+  count: number;
+  percent: number;
+}
+
+export interface AttributeStatistics {
+  name: string;
+  values: ValueCount[];
+  unset: number;
+}
+
+export interface GroupStatistics {
+  group: string;
+  total: number;
+  labeled: number;
+  // Count per value of the first attribute
+  values: Record<string, number>;
+}
+
+export interface LabelStatistics {
+  total: number;
+  labeled: number;
+  remaining: number;
+  attributes: AttributeStatistics[];
+  groupBy: GroupBy;
+  groups: GroupStatistics[];
+}
+
+export interface SessionProgress {
+  startedAt: number;
+  labeledAtStart: number;
+}
+
+const ROOT_GROUP = '(root)';
+
+// File name up to the first separator, e.g. "fig3_panel-a.png" → "fig3"
+export const filePrefix = (image: string) => {
+  const { name } = splitPath(parseItemKey(image).path);
+  return name.split(/[_\-.\s]/)[0] || name;
+};
+
+const groupOf = (image: string, groupBy: GroupBy) =>
+  groupBy === 'folder' ? splitPath(image).dir || ROOT_GROUP : filePrefix(image);
+
+const percentOf = (count: number, total: number) => (total === 0 ? 0 : (count / total) * 100);
+
+export const computeStatistics = (
+  images: string[],
+  imageChoices: Map<string, ImageEntry>,
+  attributes: Attribute[],
+  groupBy: GroupBy,
+): LabelStatistics => {
+  const labeled = images.filter(image => isEntryComplete(attributes, imageChoices.get(image))).length;
+
+  const attributeStatistics = attributes.map(attribute => {
+    const counts = new Map<string, number>(attribute.labels.map(label => [label.value, 0]));
+    let unset = 0;
+    for (const image of images) {
+      const value = imageChoices.get(image)?.values[attribute.name];
+      if (value) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+      } else {
+        unset++;
+      }
+    }
+    return {
+      name: attribute.name,
+      values: Array.from(counts, ([value, count]) => ({ value, count, percent: percentOf(count, images.length) })),
+      unset,
+    };
+  });
+
+  const groups = new Map<string, GroupStatistics>();
+  const firstAttribute = attributes[0]?.name;
+  for (const image of images) {
+    const name = groupOf(image, groupBy);
+    const group = groups.get(name) ?? { group: name, total: 0, labeled: 0, values: {} };
+    const entry = imageChoices.get(image);
+    group.total++;
+    if (isEntryComplete(attributes, entry)) {
+      group.labeled++;
+    }
+    const value = firstAttribute ? entry?.values[firstAttribute] : undefined;
+    if (value) {
+      group.values[value] = (group.values[value] ?? 0) + 1;
+    }
+    groups.set(name, group);
+  }
+
+  return {
+    total: images.length,
+    labeled,
+    remaining: images.length - labeled,
+    attributes: attributeStatistics,
+    groupBy,
+    groups: Array.from(groups.values()).sort((a, b) => a.group.localeCompare(b.group)),
+  };
+};
+
+// Images completed per hour since the session started, and the projected time left
+export const computeRate = (statistics: LabelStatistics, progress: SessionProgress, now: number) => {
+  const hours = (now - progress.startedAt) / 3_600_000;
+  const done = statistics.labeled - progress.labeledAtStart;
+  if (hours <= 0 || done <= 0) {
+    return { perHour: 0, etaMs: null };
+  }
+  const perHour = done / hours;
+  return { perHour, etaMs: (statistics.remaining / perHour) * 3_600_000 };
+};
+
+export const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60_000);
+  return minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+export const summaryFileName = (csvFileName: string, extension: 'csv' | 'json') =>
+  csvFileName.replace(/\.csv$/i, '') + `.summary.${extension}`;
+
+// One row per attribute value and per group, so the file opens cleanly in a spreadsheet
+export const formatStatisticsCsv = (
+  statistics: LabelStatistics,
+  rate: ReturnType<typeof computeRate>,
+  attributes: Attribute[],
+) => {
+  const firstAttribute = attributes[0];
+  const rows: string[][] = [
+    ['Overall', 'Total', '', String(statistics.total), ''],
+    ['Overall', 'Labeled', '', String(statistics.labeled), percentOf(statistics.labeled, statistics.total).toFixed(1)],
+    ['Overall', 'Remaining', '', String(statistics.remaining), percentOf(statistics.remaining, statistics.total).toFixed(1)],
+    ['Overall', 'Images per hour', '', rate.perHour.toFixed(1), ''],
+    ['Overall', 'ETA minutes', '', rate.etaMs === null ? '' : String(Math.round(rate.etaMs / 60_000)), ''],
+    ...statistics.attributes.flatMap(attribute => [
+      ...attribute.values.map(({ value, count, percent }) => ['Label', attribute.name, value, String(count), percent.toFixed(1)]),
+      ['Label', attribute.name, '(not set)', String(attribute.unset), percentOf(attribute.unset, statistics.total).toFixed(1)],
+    ]),
+    ...statistics.groups.flatMap(group => [
+      [statistics.groupBy === 'folder' ? 'Folder' : 'Prefix', group.group, '(labeled)', String(group.labeled), percentOf(group.labeled, group.total).toFixed(1)],
+      ...(firstAttribute?.labels ?? []).map(label => [
+        statistics.groupBy === 'folder' ? 'Folder' : 'Prefix',
+        group.group,
+        label.value,
+        String(group.values[label.value] ?? 0),
+        percentOf(group.values[label.value] ?? 0, group.total).toFixed(1),
+      ]),
+    ]),
+  ];
+  return formatCsv(['Section', 'Name', 'Value', 'Count', 'Percent'], rows);
+};
+
+export const formatStatisticsJson = (
+  statistics: LabelStatistics,
+  rate: ReturnType<typeof computeRate>,
+  directory: string,
+  now: Date,
+) => JSON.stringify({
+  format: 'figure-checker-summary',
+  version: 1,
+  directory,
+  generatedAt: now.toISOString(),
+  ...statistics,
+  imagesPerHour: rate.perHour,
+  etaMinutes: rate.etaMs === null ? null : Math.round(rate.etaMs / 60_000),
+}, null, 2);
@@ -0,0 +1,25 @@
+// Downscales figures off the main thread with OffscreenCanvas
+
+interface ThumbnailRequest {
+  id: number;
+  blob: Blob;
+  size: number;
+}
+
+self.onmessage = async (event: MessageEvent<ThumbnailRequest>) => {
+  const { id, blob, size } = event.data;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(size / bitmap.width, size / bitmap.height, 1);
+    const canvas = new OffscreenCanvas(Math.max(Math.round(bitmap.width * scale), 1), Math.max(Math.round(bitmap.height * scale), 1));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('OffscreenCanvas 2D context unavailable');
+    }
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    self.postMessage({ id, blob: await canvas.convertToBlob({ type: 'image/png' }) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,126 @@
+import { canvasToBlob, renderFigure } from '@/lib/formats';
+
+// Downscaled Timeline thumbnails, rendered off the main thread where possible and cached per file
+
+export const THUMBNAIL_SIZE = 96;
+const MAX_CACHED_THUMBNAILS = 3000;
+
+const cache = new Map<string, Promise<Blob>>();
+
+const cacheKey = (key: string, file: File) => `${key}|${file.size}|${file.lastModified}`;
+
+interface WorkerResponse {
+  id: number;
+  blob?: Blob;
+  error?: string;
+}
+
+let worker: Worker | null | undefined;
+let nextRequestId = 0;
+const pending = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+// A crashed worker never answers; fail what it still owes and render on the main thread from now on
+const abandonWorker = (reason: string) => {
+  console.error(reason);
+  worker?.terminate();
+  worker = null;
+  pending.forEach(request => request.reject(new Error(reason)));
+  pending.clear();
+};
+
+const getWorker = () => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    worker = null;
+    return worker;
+  }
+  try {
+    worker = new Worker(new URL('./thumbnail.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const { id, blob, error } = event.data;
+      const request = pending.get(id);
+      if (!request) return;
+      pending.delete(id);
+      if (blob) {
+        request.resolve(blob);
+      } else {
+        request.reject(new Error(error ?? 'Thumbnail worker failed'));
+      }
+    };
+    worker.onerror = (event) => {
+      event.preventDefault();
+      abandonWorker(`Thumbnail worker failed: ${event.message}`);
+    };
+    worker.onmessageerror = () => abandonWorker('Thumbnail worker sent an unreadable message');
+  } catch (error) {
+    console.error('Thumbnail worker unavailable:', error);
+    worker = null;
+  }
+  return worker;
+};
+
+const downscaleInWorker = (target: Worker, blob: Blob) =>
+  new Promise<Blob>((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject });
+    target.postMessage({ id, blob, size: THUMBNAIL_SIZE });
+  });
+
+const downscaleOnMainThread = async (blob: Blob) => {
+  const bitmap = await createImageBitmap(blob);
+  const scale = Math.min(THUMBNAIL_SIZE / bitmap.width, THUMBNAIL_SIZE / bitmap.height, 1);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(Math.round(bitmap.width * scale), 1);
+  canvas.height = Math.max(Math.round(bitmap.height * scale), 1);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context unavailable');
+  }
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvasToBlob(canvas);
+};
+
+const createThumbnail = async (key: string, file: File) => {
+  const source = await renderFigure(key, file);
+  // Vector images scale for free and createImageBitmap can't always rasterize them
+  if (source.type === 'image/svg+xml') {
+    return source;
+  }
+  try {
+    const target = getWorker();
+    if (target) {
+      try {
+        return await downscaleInWorker(target, source);
+      } catch (error) {
+        console.error(`Thumbnail worker couldn't downscale ${key}:`, error);
+      }
+    }
+    return await downscaleOnMainThread(source);
+  } catch (error) {
+    console.error(`Failed to downscale ${key}:`, error);
+    return source;
+  }
+};
+
+export const getThumbnail = (key: string, file: File) => {
+  const id = cacheKey(key, file);
+  const cached = cache.get(id);
+  if (cached) {
+    // Re-insert so the Map's insertion order doubles as least-recently-used order
+    cache.delete(id);
+    cache.set(id, cached);
+    return cached;
+  }
+
+  const thumbnail = createThumbnail(key, file);
+  // Rendering failures shouldn't stick in the cache
+  thumbnail.catch(() => cache.delete(id));
+  cache.set(id, thumbnail);
+  if (cache.size > MAX_CACHED_THUMBNAILS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  return thumbnail;
+};
+
+export const clearThumbnailCache = () => cache.clear();
@@ -0,0 +1,155 @@
+import { isEntryComplete, type Attribute, type ImageEntry } from '@/lib/attributes';
+import type { QualityFlag } from '@/lib/qualityChecks';
+
+// Filtering, searching and sorting of the Timeline. Navigation follows the resulting order.
+
+// One value of one attribute, e.g. Choice = N
+export interface LabelValue {
+  attribute: string;
+  value: string;
+}
+
+export interface TimelineFilter {
+  // '' for any, UNSELECTED for images without a complete label, or images with one attribute value
+  label: '' | typeof UNSELECTED | LabelValue;
+  hasComment: boolean;
+  query: string;
+  // '' for any, ANY_CHECK for images with at least one quality flag, or a QualityIssue
+  check: string;
+  disagreement: boolean;
+  // Only figures rewritten on disk after they were labeled
+  changed: boolean;
+}
+
+export type TimelineSortKey = 'name' | 'modified' | 'size' | 'label' | 'difference';
+
+export interface TimelineSort {
+  key: TimelineSortKey;
+  descending: boolean;
+}
+
+export const UNSELECTED = '__unselected__';
+export const ANY_CHECK = '__any__';
+
+export const DEFAULT_TIMELINE_FILTER: TimelineFilter = { label: '', hasComment: false, query: '', check: '', disagreement: false, changed: false };
+export const DEFAULT_TIMELINE_SORT: TimelineSort = { key: 'name', descending: false };
+
+// <select> options hold strings; attribute names are free text, so a LabelValue is encoded as JSON to round-trip intact
+export const labelOptionValue = ({ attribute, value }: LabelValue) => JSON.stringify([attribute, value]);
+
+export const parseLabelOption = (option: string): LabelValue => {
+  const [attribute, value] = JSON.parse(option) as [string, string];
+  return { attribute, value };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+
+// "*" matches within a path segment, "**" across segments, "?" a single character
+export const globToRegExp = (glob: string) => {
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += '.*';
+      i++;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${pattern}$`, 'i');
+};
+
+// Globs match the whole relative path or just the file name; plain text is a substring search
+const createMatcher = (query: string) => {
+  const trimmed = query.trim();
+  if (!trimmed) return () => true;
+  if (/[*?]/.test(trimmed)) {
+    const regExp = globToRegExp(trimmed);
+    return (image: string) => regExp.test(image) || regExp.test(image.split('/').pop() ?? image);
+  }
+  const needle = trimmed.toLowerCase();
+  return (image: string) => image.toLowerCase().includes(needle);
+};
+
+interface TimelineData {
+  imageFiles: Map<string, File>;
+  imageChoices: Map<string, ImageEntry>;
+  attributes: Attribute[];
+  // Difference to the reference figure, for images that have one
+  differenceScores: Map<string, number>;
+  qualityFlags: Map<string, QualityFlag[]>;
+  // Images where imported reviewers chose different values
+  disagreements: Set<string>;
+  // Labeled images whose file changed since, awaiting another look
+  changedImages: Set<string>;
+}
+
+// Empty string when the image has no values at all
+const labelSortValue = (entry: ImageEntry | undefined, attributes: Attribute[]) => {
+  const values = attributes.map(attribute => entry?.values[attribute.name] ?? '');
+  return values.some(Boolean) ? values.join('\u0000') : '';
+};
+
+export const buildTimelineView = (
+  images: string[],
+  { imageFiles, imageChoices, attributes, differenceScores, qualityFlags, disagreements, changedImages }: TimelineData,
+  filter: TimelineFilter,
+  sort: TimelineSort,
+) => {
+  const matchesQuery = createMatcher(filter.query);
+  const { label } = filter;
+
+  const visible = images.filter(image => {
+    const entry = imageChoices.get(image);
+    if (!matchesQuery(image)) return false;
+    if (filter.hasComment && !entry?.comment) return false;
+    if (filter.disagreement && !disagreements.has(image)) return false;
+    if (filter.changed && !changedImages.has(image)) return false;
+    if (filter.check === ANY_CHECK && !qualityFlags.has(image)) return false;
+    if (filter.check && filter.check !== ANY_CHECK && !qualityFlags.get(image)?.some(flag => flag.issue === filter.check)) return false;
+    if (label === UNSELECTED) return !isEntryComplete(attributes, entry);
+    if (label) return entry?.values[label.attribute] === label.value;
+    return true;
+  });
+
+  // images is already in name order, so a stable sort keeps it as the tie-breaker
+  if (sort.key === 'name') {
+    return sort.descending ? [...visible].reverse() : visible;
+  }
+
+  const direction = sort.descending ? -1 : 1;
+  return [...visible].sort((a, b) => {
+    switch (sort.key) {
+      case 'modified':
+        return direction * ((imageFiles.get(a)?.lastModified ?? 0) - (imageFiles.get(b)?.lastModified ?? 0));
+      case 'size':
+        return direction * ((imageFiles.get(a)?.size ?? 0) - (imageFiles.get(b)?.size ?? 0));
+      case 'difference': {
+        const left = differenceScores.get(a);
+        const right = differenceScores.get(b);
+        // Images without a reference (or not scored yet) always go last
+        if (left === undefined || right === undefined) {
+          return Number(left === undefined) - Number(right === undefined);
+        }
+        return direction * (left - right);
+      }
+      case 'label':
+      default: {
+        const left = labelSortValue(imageChoices.get(a), attributes);
+        const right = labelSortValue(imageChoices.get(b), attributes);
+        // Unlabeled images always go last
+        if (!left || !right) {
+          return Number(!left) - Number(!right);
+        }
+        return direction * left.localeCompare(right);
+      }
+    }
+  });
+};
+
+export const isFilterActive = (filter: TimelineFilter) =>
+  filter.label !== '' || filter.hasComment || filter.query.trim() !== '' || filter.check !== '' || filter.disagreement || filter.changed;
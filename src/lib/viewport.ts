@@ -0,0 +1,60 @@
+// Zoom and pan math for the figure viewport. Scale 1 shows one image pixel per CSS pixel.
+
+export type FitMode = 'fit' | 'width' | 'height' | 'actual';
+
+export interface ViewState {
+  scale: number;
+  // Offset of the image's top-left corner inside the viewport, in CSS pixels
+  x: number;
+  y: number;
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export const MIN_SCALE = 0.05;
+export const MAX_SCALE = 32;
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+// Scale for a fit mode; "fit" never enlarges small figures beyond 1:1
+const fitScale = (mode: FitMode, image: Size, viewport: Size) => {
+  switch (mode) {
+    case 'width':
+      return viewport.width / image.width;
+    case 'height':
+      return viewport.height / image.height;
+    case 'actual':
+      return 1;
+    case 'fit':
+    default:
+      return Math.min(viewport.width / image.width, viewport.height / image.height, 1);
+  }
+};
+
+// Center the image, but start at the top when it is taller than the viewport
+export const fitView = (mode: FitMode, image: Size, viewport: Size): ViewState => {
+  const scale = clampScale(fitScale(mode, image, viewport));
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return {
+    scale,
+    x: width < viewport.width ? (viewport.width - width) / 2 : 0,
+    y: height < viewport.height ? (viewport.height - height) / 2 : 0,
+  };
+};
+
+// Zoom by `factor` keeping the image point under (cx, cy) in place
+export const zoomAt = (view: ViewState, factor: number, cx: number, cy: number): ViewState => {
+  const scale = clampScale(view.scale * factor);
+  const ratio = scale / view.scale;
+  return { scale, x: cx - (cx - view.x) * ratio, y: cy - (cy - view.y) * ratio };
+};
+
+// Image coordinates (in image pixels) under a viewport point
+export const viewportToImage = (view: ViewState, cx: number, cy: number) => ({
+  x: (cx - view.x) / view.scale,
+  y: (cy - view.y) / view.scale,
+});